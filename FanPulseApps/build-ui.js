@@ -10,6 +10,10 @@ const UIS = [
   "src/ui/engagement-chart/mcp-app.html",
   "src/ui/merch-recommendations/mcp-app.html",
   "src/ui/promo-builder/mcp-app.html",
+  "src/ui/promotions-manager/mcp-app.html",
+  "src/ui/promotion-performance/mcp-app.html",
+  "src/ui/fan-browser/mcp-app.html",
+  "src/ui/fan-profile/mcp-app.html",
 ];
 
 for (const input of UIS) {
@@ -0,0 +1,84 @@
+/**
+ * Replays the Purchases table in date order and scores each recommendation strategy on
+ * whether it would have recommended what the fan actually bought.
+ * Run with: node dist/cli/evaluate-recommendations.js --k 5
+ *
+ * For each purchase the recommender only sees data from before the purchase date.
+ * Set FANPULSE_DB to evaluate against a specific database file (e.g. a generated fixture).
+ */
+
+import { parseArgs } from "node:util";
+import { evaluateRecommendations, isRecommendationStrategy } from "../src/engine/evaluation.js";
+import { RECOMMENDATION_STRATEGIES, type RecommendationStrategy } from "../src/engine/recommendations.js";
+
+const ALL_STRATEGIES = Object.keys(RECOMMENDATION_STRATEGIES) as RecommendationStrategy[];
+
+const { values } = parseArgs({
+  options: {
+    k: { type: "string", default: "5" },
+    strategies: { type: "string", default: ALL_STRATEGIES.join(",") },
+    start: { type: "string" },
+    end: { type: "string" },
+    limit: { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(`Usage: node dist/cli/evaluate-recommendations.js [options]
+
+  --k <n>                 Recommendations per purchase to check (default: 5)
+  --strategies <list>     Comma-separated strategies (default: ${ALL_STRATEGIES.join(",")})
+  --start <date>          Only replay purchases on or after this date, YYYY-MM-DD
+  --end <date>            Only replay purchases on or before this date, YYYY-MM-DD
+  --limit <n>             Stop after evaluating this many purchases
+  --json                  Print the full report as JSON`);
+  process.exit(0);
+}
+
+const k = parseInt(values.k, 10);
+const limit = values.limit === undefined ? undefined : parseInt(values.limit, 10);
+if (!Number.isInteger(k) || k < 1 || (limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+  console.error("--k and --limit must be positive integers");
+  process.exit(1);
+}
+
+const strategies = values.strategies.split(",").map((s) => s.trim()).filter(Boolean);
+const unknown = strategies.filter((s) => !isRecommendationStrategy(s));
+if (unknown.length > 0 || strategies.length === 0) {
+  console.error(`Unknown strategy: ${unknown.join(", ") || "(none given)"}. Choose from ${ALL_STRATEGIES.join(", ")}.`);
+  process.exit(1);
+}
+
+try {
+  const report = evaluateRecommendations({
+    k,
+    strategies: strategies as RecommendationStrategy[],
+    startDate: values.start,
+    endDate: values.end,
+    maxPurchases: limit,
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(
+      `Replayed ${report.purchasesReplayed} purchases: ${report.evaluated} evaluated, ` +
+        `${report.skippedRepeatPurchases} repeat purchases and ${report.skippedUnknownFans} unknown fans skipped. ` +
+        `Catalog: ${report.catalogSize} products.\n`
+    );
+    console.table(
+      report.results.map((r) => ({
+        strategy: r.strategy,
+        [`hit-rate@${k}`]: r.hitRate,
+        [`MRR@${k}`]: r.mrr,
+        coverage: r.coverage,
+        hits: r.hits,
+      }))
+    );
+  }
+} catch (error) {
+  console.error("Evaluation failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,57 @@
+/**
+ * Generates a deterministic synthetic FanPulse dataset and writes it to fanpulse.db.
+ * Run with: node dist/cli/generate-data.js --fans 1000 --seed 42 --reset
+ *
+ * The same --seed, --fans, --start and --end always produce identical rows.
+ * Set FANPULSE_DB to write to a specific database file (e.g. a CI fixture).
+ */
+
+import { parseArgs } from "node:util";
+import { generateDataset, writeDataset } from "../src/data/generator.js";
+
+const { values } = parseArgs({
+  options: {
+    fans: { type: "string", default: "500" },
+    seed: { type: "string", default: "42" },
+    start: { type: "string" },
+    end: { type: "string" },
+    reset: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(`Usage: node dist/cli/generate-data.js [options]
+
+  --fans <n>          Number of fans to generate (default: 500)
+  --seed <n>          PRNG seed (default: 42)
+  --start <date>      First day of activity, YYYY-MM-DD (default: 365 days before --end)
+  --end <date>        Last day of activity, YYYY-MM-DD (default: today)
+  --reset             Delete all existing fans, events, merchandise, purchases and promotions first`);
+  process.exit(0);
+}
+
+const fans = parseInt(values.fans, 10);
+const seed = parseInt(values.seed, 10);
+if (!Number.isInteger(fans) || fans < 0 || !Number.isInteger(seed)) {
+  console.error("--fans must be a non-negative integer and --seed an integer");
+  process.exit(1);
+}
+
+const endDate = values.end ?? new Date().toISOString().slice(0, 10);
+const startDate =
+  values.start ?? new Date(Date.parse(endDate) - 365 * 86400000).toISOString().slice(0, 10);
+
+try {
+  const dataset = generateDataset({ seed, fans, startDate, endDate });
+  writeDataset(dataset, { reset: values.reset });
+  console.log(
+    `Generated ${dataset.fans.length} fans, ${dataset.products.length} products, ` +
+      `${dataset.events.length} engagement events and ${dataset.purchases.length} purchases ` +
+      `(seed ${seed}, ${startDate} → ${endDate}).`
+  );
+} catch (error) {
+  console.error("Data generation failed:", error instanceof Error ? error.message : error);
+  if (!values.reset) console.error("If the database already holds generated data, re-run with --reset.");
+  process.exit(1);
+}
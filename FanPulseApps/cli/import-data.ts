@@ -0,0 +1,83 @@
+/**
+ * Bulk imports engagement events or purchases from a CSV or NDJSON file into fanpulse.db.
+ * Run with: node dist/cli/import-data.js --events tickets-2026-10-18.csv
+ *
+ * Rows whose sourceId was already imported are skipped, so re-running a file is safe.
+ * Bad rows are reported and skipped; the exit code is 1 if any row failed.
+ * Set FANPULSE_DB to import into a specific database file.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { DEFAULT_BATCH_SIZE, importEngagementEvents, importPurchases } from "../src/data/importer.js";
+import { IMPORT_FORMATS, type ImportFormat } from "../src/types.js";
+
+/** Failed rows printed to the console; --report writes them all */
+const MAX_PRINTED_ERRORS = 20;
+
+const { values } = parseArgs({
+  options: {
+    events: { type: "string" },
+    purchases: { type: "string" },
+    format: { type: "string" },
+    "batch-size": { type: "string", default: String(DEFAULT_BATCH_SIZE) },
+    "dry-run": { type: "boolean", default: false },
+    report: { type: "string" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(`Usage: node dist/cli/import-data.js (--events <file> | --purchases <file>) [options]
+
+  --events <file>     Engagement events: sourceId, fanId, eventType, eventDate, [details], [metadata]
+  --purchases <file>  Purchases: sourceId, fanId, productId, purchaseDate, totalPrice, [quantity], [promotionId]
+  --format <format>   csv or ndjson (default: from the file extension)
+  --batch-size <n>    Rows written per transaction (default: ${DEFAULT_BATCH_SIZE})
+  --dry-run           Validate and count the rows without importing them
+  --report <file>     Also write the full report, with every failed row, as JSON`);
+  process.exit(0);
+}
+
+const file = values.events ?? values.purchases;
+if (!file || (values.events && values.purchases)) {
+  console.error("Give one of --events <file> or --purchases <file>");
+  process.exit(1);
+}
+
+const extension = path.extname(file).toLowerCase();
+const format = values.format ?? (extension === ".csv" ? "csv" : [".ndjson", ".jsonl"].includes(extension) ? "ndjson" : undefined);
+if (!format || !(IMPORT_FORMATS as readonly string[]).includes(format)) {
+  console.error(`--format must be ${IMPORT_FORMATS.join(" or ")} when it can't be told from the file extension`);
+  process.exit(1);
+}
+
+const batchSize = parseInt(values["batch-size"], 10);
+if (!Number.isInteger(batchSize) || batchSize < 1) {
+  console.error("--batch-size must be a positive integer");
+  process.exit(1);
+}
+
+try {
+  const text = fs.readFileSync(file, "utf8");
+  const options = { format: format as ImportFormat, dryRun: values["dry-run"], batchSize };
+  const report = values.events ? importEngagementEvents(text, options) : importPurchases(text, options);
+
+  const kind = values.events ? "engagement events" : "purchases";
+  console.log(
+    `${report.dryRun ? "Dry run: would import" : "Imported"} ${report.imported} of ${report.totalRows} ${kind} ` +
+      `from ${file} (${report.duplicates} duplicates skipped, ${report.failed} failed).`
+  );
+  for (const error of report.errors.slice(0, MAX_PRINTED_ERRORS)) {
+    console.error(`  line ${error.line}${error.sourceId ? ` (${error.sourceId})` : ""}: ${error.message}`);
+  }
+  if (report.errors.length > MAX_PRINTED_ERRORS) {
+    console.error(`  …and ${report.errors.length - MAX_PRINTED_ERRORS} more${values.report ? "" : " (use --report to see them all)"}`);
+  }
+  if (values.report) fs.writeFileSync(values.report, JSON.stringify(report, null, 2) + "\n");
+  if (report.failed > 0) process.exit(1);
+} catch (error) {
+  console.error("Import failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
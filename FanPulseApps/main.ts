@@ -4,31 +4,84 @@
  * Run with: node dist/main.js            (for HTTP/SSE transport)
  */
 
+import { randomUUID } from "node:crypto";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import cors from "cors";
 import type { Request, Response } from "express";
 import { createServer } from "./server.js";
+import { getDb } from "./src/data/database.js";
+
+/** A session with no requests for this long is closed, in case its client went away without ending it */
+const SESSION_IDLE_MS = parseInt(process.env.SESSION_IDLE_MINUTES ?? "30", 10) * 60_000;
+
+/** How often idle sessions are looked for */
+const SESSION_SWEEP_MS = 60_000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Requests still being answered, such as an open SSE stream or a waiting WatchChanges call */
+  openRequests: number;
+}
 
 async function startStreamableHTTPServer(): Promise<void> {
   const port = parseInt(process.env.PORT ?? "3001", 10);
   const app = createMcpExpressApp({ host: "0.0.0.0" });
-  app.use(cors());
+  // Browser clients read the session ID from the initialize response
+  app.use(cors({ exposedHeaders: ["Mcp-Session-Id"] }));
 
-  app.all("/mcp", async (req: Request, res: Response) => {
-    const server = createServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
+  // One server and transport per session, kept until the client ends it with DELETE /mcp
+  // or it goes idle, so resource subscriptions and their notifications last the whole session
+  const sessions = new Map<string, Session>();
 
-    res.on("close", () => {
-      transport.close().catch(() => {});
-      server.close().catch(() => {});
-    });
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastActive < cutoff) session.transport.close().catch(() => {});
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
 
+  app.all("/mcp", async (req: Request, res: Response) => {
     try {
-      await server.connect(transport);
+      const sessionId = req.header("mcp-session-id");
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      let transport = session?.transport;
+
+      if (!transport) {
+        if (sessionId || req.method !== "POST" || !isInitializeRequest(req.body)) {
+          res.status(sessionId ? 404 : 400).json({
+            jsonrpc: "2.0",
+            error: { code: -32000, message: sessionId ? "Session not found" : "No session: send an initialize request first" },
+            id: null,
+          });
+          return;
+        }
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport: newTransport, lastActive: Date.now(), openRequests: 0 });
+          },
+        });
+        // The server's own close handling runs after this, ending its subscriptions
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) sessions.delete(newTransport.sessionId);
+        };
+        await createServer().connect(newTransport);
+        transport = newTransport;
+      }
+
+      if (session) {
+        session.openRequests++;
+        session.lastActive = Date.now();
+        res.on("close", () => {
+          session.openRequests--;
+          session.lastActive = Date.now();
+        });
+      }
       await transport.handleRequest(req, res, req.body);
     } catch (error) {
       console.error("MCP error:", error);
@@ -48,6 +101,8 @@ async function startStreamableHTTPServer(): Promise<void> {
 
   const shutdown = () => {
     console.log("\nShutting down...");
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) transport.close().catch(() => {});
     httpServer.close(() => process.exit(0));
   };
   process.on("SIGINT", shutdown);
@@ -59,6 +114,9 @@ async function startStdioServer(): Promise<void> {
 }
 
 async function main() {
+  // Open the database up front so pending schema migrations run before any client connects
+  getDb();
+
   if (process.argv.includes("--stdio")) {
     await startStdioServer();
   } else {
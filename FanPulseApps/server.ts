@@ -1,16 +1,36 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   registerGetFanProfile,
+  registerSearchFans,
   registerLogEngagementEvent,
+  registerListEventTypes,
+  registerDefineEventType,
+  registerImportEngagementEvents,
+  registerCreateFan,
+  registerUpdateFan,
+  registerExportFanData,
+  registerDeleteFan,
   registerGetFanEngagementMetrics,
   registerSearchMerchandise,
   registerGetMerchRecommendations,
+  registerRecordPurchase,
+  registerAdjustInventory,
+  registerGetLowStockReport,
   registerCreatePromotion,
+  registerListPromotions,
+  registerGetPromotion,
+  registerUpdatePromotion,
+  registerCancelPromotion,
+  registerGetPromotionPerformance,
   registerGetFanSegments,
+  registerExportData,
+  registerDataResources,
+  registerWatchChanges,
+  registerWorkflowPrompts,
 } from "./src/tools/fan-tools.js";
 
 /**
- * Creates a new MCP server instance with all tools and resources registered.
+ * Creates a new MCP server instance with all tools, resources and prompts registered.
  * Each HTTP session needs its own server instance because McpServer only supports one transport.
  */
 export function createServer(): McpServer {
@@ -20,12 +40,32 @@ export function createServer(): McpServer {
   });
 
   registerGetFanProfile(server);
+  registerSearchFans(server);
   registerLogEngagementEvent(server);
+  registerListEventTypes(server);
+  registerDefineEventType(server);
+  registerImportEngagementEvents(server);
+  registerCreateFan(server);
+  registerUpdateFan(server);
+  registerExportFanData(server);
+  registerDeleteFan(server);
   registerGetFanEngagementMetrics(server);
   registerSearchMerchandise(server);
   registerGetMerchRecommendations(server);
+  registerRecordPurchase(server);
+  registerAdjustInventory(server);
+  registerGetLowStockReport(server);
   registerCreatePromotion(server);
+  registerListPromotions(server);
+  registerGetPromotion(server);
+  registerUpdatePromotion(server);
+  registerCancelPromotion(server);
+  registerGetPromotionPerformance(server);
   registerGetFanSegments(server);
+  registerExportData(server);
+  registerDataResources(server);
+  registerWatchChanges(server);
+  registerWorkflowPrompts(server);
 
   return server;
 }
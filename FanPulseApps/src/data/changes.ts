@@ -0,0 +1,85 @@
+import { EventEmitter } from "node:events";
+import { CHANGE_TABLES, type ChangeTable } from "../types.js";
+
+// In-process feed of writes made through the server's tools. Each tool that writes records
+// one change, which bumps a version number. Resource subscribers are notified from it, and
+// the UIs poll it through WatchChanges. It's shared by every session in the process, so a
+// write in one chat updates the UIs open in another. Writes from the C# server or the CLIs
+// aren't seen, and versions restart from 0 with the process.
+
+export interface Change {
+  version: number;
+  tables: ChangeTable[];
+  /** The fans, products or promotions changed; null when the change may touch any of them */
+  fanIds: string[] | null;
+  productIds: string[] | null;
+  promotionIds: string[] | null;
+  /** Rows were added or removed, so resources/list changed too */
+  listChanged: boolean;
+}
+
+let version = 0;
+const tableVersions = new Map<ChangeTable, number>();
+const emitter = new EventEmitter();
+// One listener per connected session, plus WatchChanges calls waiting for a change. Bounded
+// rather than unlimited, so sessions that are never closed still show up as a leak warning.
+emitter.setMaxListeners(500);
+
+export function currentVersion(): number {
+  return version;
+}
+
+export function recordChange(change: Partial<Omit<Change, "version">> & { tables: ChangeTable[] }) {
+  version++;
+  for (const table of change.tables) tableVersions.set(table, version);
+  emitter.emit("change", {
+    version,
+    tables: change.tables,
+    fanIds: change.fanIds ?? null,
+    productIds: change.productIds ?? null,
+    promotionIds: change.promotionIds ?? null,
+    listChanged: change.listChanged ?? false,
+  } satisfies Change);
+}
+
+/**
+ * Tables changed after version `since`. A `since` ahead of the current version is from
+ * before a restart, so every table counts as changed.
+ */
+export function tablesChangedSince(since: number, tables: readonly ChangeTable[] = CHANGE_TABLES): ChangeTable[] {
+  if (since > version) return [...tables];
+  return tables.filter((table) => (tableVersions.get(table) ?? 0) > since);
+}
+
+/** Calls listener on every change until the returned function is called */
+export function onChange(listener: (change: Change) => void): () => void {
+  emitter.on("change", listener);
+  return () => emitter.off("change", listener);
+}
+
+/**
+ * Resolves with the tables changed after `since`, waiting up to timeoutMs for one if none
+ * have. Stops waiting early if the signal aborts (e.g. the client cancelled the call).
+ */
+export function waitForChange(
+  since: number,
+  tables: readonly ChangeTable[],
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ChangeTable[]> {
+  const changed = tablesChangedSince(since, tables);
+  if (changed.length > 0 || timeoutMs <= 0 || signal?.aborted) return Promise.resolve(changed);
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer);
+      stop();
+      signal?.removeEventListener("abort", finish);
+      resolve(tablesChangedSince(since, tables));
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    const stop = onChange((change) => {
+      if (change.tables.some((table) => tables.includes(table))) finish();
+    });
+    signal?.addEventListener("abort", finish);
+  });
+}
@@ -1,6 +1,8 @@
 import Database from "better-sqlite3";
 import path from "node:path";
 import fs from "node:fs";
+import { runMigrations } from "./migrations.js";
+import type { EventMetadata, MerchSort, MetadataField, Promotion } from "../types.js";
 
 // Resolve the shared fanpulse.db — walk up from the compiled output (dist/src/data/)
 // to find the repo root, then look in FanPulse/ for the database.
@@ -18,7 +20,7 @@ function findDbPath(): string {
     dir = path.dirname(dir);
   }
 
-  // Fallback: assume cwd is repo root
+  // Fallback: assume cwd is repo root. A missing file is created and migrated by getDb().
   return path.resolve("fanpulse.db");
 }
 
@@ -30,6 +32,7 @@ export function getDb(): Database.Database {
   if (!db) {
     db = new Database(DB_PATH, { readonly: false });
     db.pragma("journal_mode = WAL");
+    runMigrations(db);
   }
   return db;
 }
@@ -58,20 +61,81 @@ export function getFanByIdOrEmail(identifier: string) {
     : null;
 }
 
-export function getRecentEngagements(fanId: string, limit = 10) {
+/**
+ * Fans matching every given filter, in no particular order. Name, team and player match
+ * substrings; city and state match whole values; join dates are inclusive. Each fan's
+ * lastEngagement is their latest event ever, or null.
+ */
+export function searchFans(filters: {
+  name?: string;
+  city?: string;
+  state?: string;
+  team?: string;
+  player?: string;
+  joinedFrom?: string;
+  joinedTo?: string;
+}) {
   return getDb()
     .prepare(
-      `SELECT EventType as type, EventDate as date, Details as details
+      `SELECT f.FanId as fanId, f.FirstName || ' ' || f.LastName as name, f.Email as email,
+              f.City as city, f.State as state, f.FavoriteTeam as favoriteTeam,
+              f.FavoritePlayers as favoritePlayers, f.JoinDate as joinDate,
+              (SELECT MAX(e.EventDate) FROM EngagementEvents e WHERE e.FanId = f.FanId) as lastEngagement
+       FROM Fans f
+       WHERE (@name IS NULL OR f.FirstName || ' ' || f.LastName LIKE '%' || @name || '%')
+         AND (@city IS NULL OR f.City = @city COLLATE NOCASE)
+         AND (@state IS NULL OR f.State = @state COLLATE NOCASE)
+         AND (@team IS NULL OR f.FavoriteTeam LIKE '%' || @team || '%')
+         AND (@player IS NULL OR f.FavoritePlayers LIKE '%' || @player || '%')
+         AND (@joinedFrom IS NULL OR substr(f.JoinDate, 1, 10) >= @joinedFrom)
+         AND (@joinedTo IS NULL OR substr(f.JoinDate, 1, 10) <= @joinedTo)`
+    )
+    .all({
+      name: filters.name ?? null,
+      city: filters.city ?? null,
+      state: filters.state ?? null,
+      team: filters.team ?? null,
+      player: filters.player ?? null,
+      joinedFrom: filters.joinedFrom ?? null,
+      joinedTo: filters.joinedTo ?? null,
+    }) as {
+    fanId: string;
+    name: string;
+    email: string;
+    city: string;
+    state: string;
+    favoriteTeam: string;
+    favoritePlayers: string;
+    joinDate: string;
+    lastEngagement: string | null;
+  }[];
+}
+
+/** An event's Metadata column as an object; anything unreadable counts as no metadata */
+function parseMetadata(json: string | null): EventMetadata {
+  try {
+    const value: unknown = JSON.parse(json ?? "{}");
+    return value && typeof value === "object" && !Array.isArray(value) ? (value as EventMetadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRecentEngagements(fanId: string, limit = 10) {
+  const rows = getDb()
+    .prepare(
+      `SELECT EventType as type, EventDate as date, COALESCE(Details, '') as details, Metadata as metadata
        FROM EngagementEvents WHERE FanId = ? ORDER BY EventDate DESC LIMIT ?`
     )
-    .all(fanId, limit) as { type: string; date: string; details: string }[];
+    .all(fanId, limit) as { type: string; date: string; details: string; metadata: string }[];
+  return rows.map((row) => ({ ...row, metadata: parseMetadata(row.metadata) }));
 }
 
 export function getPurchaseHistory(fanId: string) {
   return getDb()
     .prepare(
       `SELECT p.PurchaseDate as date, m.Name as product, m.Category as category,
-              p.Quantity as quantity, p.TotalPrice as totalPrice
+              p.Quantity as quantity, p.TotalPrice as totalPrice, p.PromotionId as promotionId
        FROM Purchases p JOIN Merchandise m ON p.ProductId = m.ProductId
        WHERE p.FanId = ? ORDER BY p.PurchaseDate DESC`
     )
@@ -81,6 +145,7 @@ export function getPurchaseHistory(fanId: string) {
     category: string;
     quantity: number;
     totalPrice: number;
+    promotionId: string | null;
   }[];
 }
 
@@ -100,25 +165,29 @@ export function getEngagementSummary(fanId: string, cutoffDate?: string) {
        FROM EngagementEvents WHERE FanId = ? AND EventDate >= ?`
     )
     .get(fanId, cutoff) as Record<string, number | string | null>;
+  const typeCounts = getDb()
+    .prepare(
+      `SELECT EventType as eventType, COUNT(*) as count
+       FROM EngagementEvents WHERE FanId = ? AND EventDate >= ?
+       GROUP BY EventType ORDER BY count DESC, EventType`
+    )
+    .all(fanId, cutoff) as { eventType: string; count: number }[];
 
-  const games = (row.gamesAttended as number) ?? 0;
-  const total = (row.totalEvents as number) ?? 0;
   return {
-    totalEvents: total,
-    gamesAttended: games,
+    totalEvents: (row.totalEvents as number) ?? 0,
+    gamesAttended: (row.gamesAttended as number) ?? 0,
     appOpens: (row.appOpens as number) ?? 0,
     socialShares: (row.socialShares as number) ?? 0,
     contentViews: (row.contentViews as number) ?? 0,
-    firstEvent: row.firstEvent ?? "none",
-    lastEvent: row.lastEvent ?? "none",
-    engagementLevel:
-      games >= 4 ? "superfan" : games >= 2 ? "regular" : total > 0 ? "casual" : "dormant",
+    eventCounts: Object.fromEntries(typeCounts.map((t) => [t.eventType, t.count])),
+    firstEvent: (row.firstEvent as string | null) ?? "none",
+    lastEvent: (row.lastEvent as string | null) ?? "none",
   };
 }
 
 // ── Engagement Metrics ──
 
-export function getAllFanMetrics(cutoffDate: string) {
+export function getAllFanMetrics(cutoffDate: string, team?: string) {
   return getDb()
     .prepare(
       `SELECT f.FanId as fanId, f.FirstName || ' ' || f.LastName as name, f.FavoriteTeam as favoriteTeam,
@@ -127,11 +196,12 @@ export function getAllFanMetrics(cutoffDate: string) {
               SUM(CASE WHEN e.EventType = 'game_attendance' THEN 1 ELSE 0 END) as gamesAttended,
               MAX(e.EventDate) as lastEngagement
        FROM Fans f
-       LEFT JOIN EngagementEvents e ON f.FanId = e.FanId AND e.EventDate >= ?
+       LEFT JOIN EngagementEvents e ON f.FanId = e.FanId AND e.EventDate >= @cutoffDate
+       WHERE @team IS NULL OR f.FavoriteTeam = @team
        GROUP BY f.FanId
        ORDER BY totalEvents DESC`
     )
-    .all(cutoffDate) as {
+    .all({ cutoffDate, team: team ?? null }) as {
     fanId: string;
     name: string;
     favoriteTeam: string;
@@ -142,17 +212,106 @@ export function getAllFanMetrics(cutoffDate: string) {
   }[];
 }
 
+/**
+ * Events since `cutoffDate` grouped by fan, type and day — the inputs to the engagement
+ * score. Restrict to one fan with `fanId`.
+ */
+export function getEngagementEventCounts(cutoffDate: string, fanId?: string) {
+  return getDb()
+    .prepare(
+      `SELECT FanId as fanId, EventType as eventType, EventDate as eventDate, COUNT(*) as count
+       FROM EngagementEvents
+       WHERE EventDate >= @cutoffDate AND (@fanId IS NULL OR FanId = @fanId)
+       GROUP BY FanId, EventType, EventDate`
+    )
+    .all({ cutoffDate, fanId: fanId ?? null }) as {
+    fanId: string;
+    eventType: string;
+    eventDate: string;
+    count: number;
+  }[];
+}
+
+// First day of the bucket an EventDate falls in. Weeks start on Monday.
+const BUCKET_START = {
+  day: "e.EventDate",
+  week: "date(e.EventDate, 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m-01', e.EventDate)",
+} as const;
+
+/**
+ * Event counts per time bucket and event type between two dates (inclusive),
+ * for one fan, the fans of one team, or everyone. Buckets with no events are omitted.
+ */
+export function getEngagementTimeSeries(
+  interval: keyof typeof BUCKET_START,
+  startDate: string,
+  endDate: string,
+  filters: { fanId?: string; team?: string } = {}
+) {
+  return getDb()
+    .prepare(
+      `SELECT ${BUCKET_START[interval]} as bucketStart, e.EventType as eventType, COUNT(*) as count
+       FROM EngagementEvents e JOIN Fans f ON f.FanId = e.FanId
+       WHERE e.EventDate BETWEEN @startDate AND @endDate
+         AND (@fanId IS NULL OR e.FanId = @fanId)
+         AND (@team IS NULL OR f.FavoriteTeam = @team)
+       GROUP BY bucketStart, e.EventType
+       ORDER BY bucketStart`
+    )
+    .all({ startDate, endDate, fanId: filters.fanId ?? null, team: filters.team ?? null }) as {
+    bucketStart: string;
+    eventType: string;
+    count: number;
+  }[];
+}
+
 // ── Merchandise ──
 
-export function searchMerchandise(filters: {
+// Stock is tracked as a quantity; inStock is derived from it so callers can't disagree.
+// The legacy InStock column is kept in sync for the C# server, which still reads it.
+const PRODUCT_COLUMNS = `ProductId as productId, Name as name, Category as category,
+              Team as team, Player as player, Price as price,
+              CASE WHEN StockQuantity > 0 THEN 1 ELSE 0 END as inStock,
+              StockQuantity as stockQuantity, ReorderThreshold as reorderThreshold`;
+
+export interface MerchandiseFilters {
   team?: string;
   category?: string;
+  /** Any of these categories, matched exactly (case-insensitive) */
+  categories?: string[];
   player?: string;
+  minPrice?: number;
   maxPrice?: number;
   inStockOnly?: boolean;
-}) {
+  /** FTS5 MATCH expression over MerchandiseSearch (see engine/search.ts) */
+  match?: string;
+}
+
+// Every order ends with ProductId so pages don't overlap. Relevance needs a match.
+const MERCH_ORDER: Record<MerchSort, string> = {
+  relevance: "MatchRank, ProductId",
+  category: "Category, Price, ProductId",
+  price_asc: "Price, Name, ProductId",
+  price_desc: "Price DESC, Name, ProductId",
+  name: "Name, ProductId",
+  stock: "StockQuantity, Name, ProductId",
+};
+
+// Full-text column weights for bm25: a hit in the name counts most
+const SEARCH_WEIGHTS = "10.0, 4.0, 4.0, 2.0";
+
+function merchandiseFrom(filters: MerchandiseFilters): { from: string; params: (string | number)[] } {
   const conditions: string[] = [];
   const params: (string | number)[] = [];
+  let from = "Merchandise";
+
+  if (filters.match) {
+    // bm25 is lower for better matches, so ascending MatchRank is most relevant first
+    from += ` JOIN (SELECT rowid as MatchRowId, bm25(MerchandiseSearch, ${SEARCH_WEIGHTS}) as MatchRank
+                    FROM MerchandiseSearch WHERE MerchandiseSearch MATCH ?) ON MatchRowId = Merchandise.rowid`;
+    params.push(filters.match);
+  }
 
   if (filters.team) {
     conditions.push("Team LIKE ?");
@@ -166,22 +325,130 @@ export function searchMerchandise(filters: {
     conditions.push("Player LIKE ?");
     params.push(`%${filters.player}%`);
   }
+  if (filters.categories && filters.categories.length > 0) {
+    conditions.push(`Category COLLATE NOCASE IN (${filters.categories.map(() => "?").join(", ")})`);
+    params.push(...filters.categories);
+  }
+  if (filters.minPrice !== undefined) {
+    conditions.push("Price >= ?");
+    params.push(filters.minPrice);
+  }
   if (filters.maxPrice !== undefined) {
     conditions.push("Price <= ?");
     params.push(filters.maxPrice);
   }
   if (filters.inStockOnly !== false) {
-    conditions.push("InStock = 1");
+    conditions.push("StockQuantity > 0");
   }
 
-  const where = conditions.length > 0 ? "WHERE " + conditions.join(" AND ") : "";
+  if (conditions.length > 0) from += " WHERE " + conditions.join(" AND ");
+  return { from, params };
+}
+
+/**
+ * Matching products in `sortBy` order (default category, then price; relevance falls back
+ * to that without a match); pass limit/offset for one page
+ */
+export function searchMerchandise(
+  filters: MerchandiseFilters,
+  page: { sortBy?: MerchSort; limit?: number; offset?: number } = {}
+) {
+  const { from, params } = merchandiseFrom(filters);
+  const sortBy = page.sortBy === "relevance" && !filters.match ? "category" : (page.sortBy ?? "category");
+  return getDb()
+    .prepare(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM ${from} ORDER BY ${MERCH_ORDER[sortBy]}
+       LIMIT ? OFFSET ?`
+    )
+    .all(...params, page.limit ?? -1, page.offset ?? 0) as {
+    productId: string;
+    name: string;
+    category: string;
+    team: string;
+    player: string;
+    price: number;
+    inStock: number;
+    stockQuantity: number;
+    reorderThreshold: number;
+  }[];
+}
+
+export function countMerchandise(filters: MerchandiseFilters): number {
+  const { from, params } = merchandiseFrom(filters);
+  return (getDb().prepare(`SELECT COUNT(*) as count FROM ${from}`).get(...params) as { count: number }).count;
+}
+
+/** Every word in the merchandise search index, with the number of products containing it */
+export function getMerchandiseSearchTerms() {
+  return getDb().prepare("SELECT term, doc as products FROM MerchandiseSearchTerms").all() as {
+    term: string;
+    products: number;
+  }[];
+}
+
+export function getProductById(productId: string) {
+  return getDb()
+    .prepare(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM Merchandise WHERE ProductId = ?`
+    )
+    .get(productId) as
+    | {
+        productId: string;
+        name: string;
+        category: string;
+        team: string;
+        player: string;
+        price: number;
+        inStock: number;
+        stockQuantity: number;
+        reorderThreshold: number;
+      }
+    | undefined;
+}
+
+// ── Inventory ──
+
+/** In stock but at or below the reorder threshold; a sold-out product is out of stock, not low */
+export function isLowStock(stockQuantity: number, reorderThreshold: number): boolean {
+  return stockQuantity > 0 && stockQuantity <= reorderThreshold;
+}
+
+/**
+ * Removes `quantity` units if that many are on hand. Returns false (and changes nothing)
+ * when stock is insufficient, so concurrent purchases can't drive stock negative.
+ */
+export function decrementStock(productId: string, quantity: number): boolean {
+  const result = getDb()
+    .prepare(
+      `UPDATE Merchandise SET StockQuantity = StockQuantity - @quantity,
+              InStock = CASE WHEN StockQuantity - @quantity > 0 THEN 1 ELSE 0 END
+       WHERE ProductId = @productId AND StockQuantity >= @quantity`
+    )
+    .run({ productId, quantity });
+  return result.changes > 0;
+}
+
+export function setStockLevel(productId: string, stockQuantity: number, reorderThreshold: number) {
+  getDb()
+    .prepare(
+      `UPDATE Merchandise SET StockQuantity = @stockQuantity, ReorderThreshold = @reorderThreshold,
+              InStock = CASE WHEN @stockQuantity > 0 THEN 1 ELSE 0 END
+       WHERE ProductId = @productId`
+    )
+    .run({ productId, stockQuantity, reorderThreshold });
+}
+
+/** Products at or below their reorder threshold, emptiest first */
+export function getLowStockProducts() {
   return getDb()
     .prepare(
-      `SELECT ProductId as productId, Name as name, Category as category,
-              Team as team, Player as player, Price as price, InStock as inStock
-       FROM Merchandise ${where} ORDER BY Category, Price`
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM Merchandise WHERE StockQuantity <= ReorderThreshold
+       ORDER BY StockQuantity, Name`
     )
-    .all(...params) as {
+    .all() as {
     productId: string;
     name: string;
     category: string;
@@ -189,31 +456,51 @@ export function searchMerchandise(filters: {
     player: string;
     price: number;
     inStock: number;
+    stockQuantity: number;
+    reorderThreshold: number;
   }[];
 }
 
 // ── Segments ──
 
-export function getFanSegmentData(team?: string) {
-  const teamFilter = team ? "AND f.FavoriteTeam LIKE '%' || ? || '%'" : "";
-  const params = team ? [team] : [];
+/**
+ * Per-fan engagement and purchase totals for segmentation. With `asOf`, only activity
+ * before that date counts and fans who joined later are excluded — i.e. the segments
+ * as they stood on that day.
+ */
+export function getFanSegmentData(team?: string, asOf?: string) {
+  const eventCutoff = asOf ? "WHERE EventDate < @asOf" : "";
+  const purchaseCutoff = asOf ? "WHERE PurchaseDate < @asOf" : "";
+  const teamFilter = team ? "AND f.FavoriteTeam LIKE '%' || @team || '%'" : "";
+  const joinFilter = asOf ? "AND f.JoinDate < @asOf" : "";
 
+  // Events and purchases are totalled per fan before joining; joining both tables row by
+  // row would multiply each fan's events by their purchases
   return getDb()
     .prepare(
       `SELECT f.FanId as fanId, f.FirstName || ' ' || f.LastName as name,
               f.Email as email, f.FavoriteTeam as favoriteTeam,
-              COUNT(DISTINCT e.EventId) as engagementCount,
-              SUM(CASE WHEN e.EventType = 'game_attendance' THEN 1 ELSE 0 END) as gamesAttended,
-              COUNT(DISTINCT p.PurchaseId) as purchaseCount,
-              COALESCE(SUM(p.TotalPrice), 0) as totalSpent,
-              MAX(e.EventDate) as lastEngagement
+              COALESCE(e.engagementCount, 0) as engagementCount,
+              COALESCE(e.gamesAttended, 0) as gamesAttended,
+              COALESCE(p.purchaseCount, 0) as purchaseCount,
+              COALESCE(p.totalSpent, 0) as totalSpent,
+              e.lastEngagement as lastEngagement
        FROM Fans f
-       LEFT JOIN EngagementEvents e ON f.FanId = e.FanId
-       LEFT JOIN Purchases p ON f.FanId = p.FanId
-       WHERE 1=1 ${teamFilter}
-       GROUP BY f.FanId`
+       LEFT JOIN (
+         SELECT FanId, COUNT(*) as engagementCount,
+                SUM(CASE WHEN EventType = 'game_attendance' THEN 1 ELSE 0 END) as gamesAttended,
+                MAX(EventDate) as lastEngagement
+         FROM EngagementEvents ${eventCutoff}
+         GROUP BY FanId
+       ) e ON e.FanId = f.FanId
+       LEFT JOIN (
+         SELECT FanId, COUNT(*) as purchaseCount, SUM(TotalPrice) as totalSpent
+         FROM Purchases ${purchaseCutoff}
+         GROUP BY FanId
+       ) p ON p.FanId = f.FanId
+       WHERE 1=1 ${teamFilter} ${joinFilter}`
     )
-    .all(...params) as {
+    .all({ team, asOf }) as {
     fanId: string;
     name: string;
     email: string;
@@ -234,39 +521,95 @@ export function getFanForRecommendation(fanId: string) {
     .get(fanId) as { FavoriteTeam: string; FavoritePlayers: string } | undefined;
 }
 
-export function getPurchasedProductIds(fanId: string): Set<string> {
+// The queries below take an optional `before` date (exclusive) so recommendations can be
+// replayed as of a past date; omit it to use all data.
+
+export function getPurchasedProductIds(fanId: string, before?: string): Set<string> {
   const rows = getDb()
-    .prepare("SELECT DISTINCT ProductId FROM Purchases WHERE FanId = ?")
-    .all(fanId) as { ProductId: string }[];
+    .prepare(
+      `SELECT DISTINCT ProductId FROM Purchases
+       WHERE FanId = @fanId AND (@before IS NULL OR PurchaseDate < @before)`
+    )
+    .all({ fanId, before: before ?? null }) as { ProductId: string }[];
   return new Set(rows.map((r) => r.ProductId));
 }
 
-export function getFanEngagementCounts(fanId: string) {
+export function getFanEngagementCounts(fanId: string, before?: string) {
   const row = getDb()
     .prepare(
       `SELECT COUNT(*) as total,
-              SUM(CASE WHEN EventType = 'game_attendance' THEN 1 ELSE 0 END) as games
-       FROM EngagementEvents WHERE FanId = ?`
+              COALESCE(SUM(CASE WHEN EventType = 'game_attendance' THEN 1 ELSE 0 END), 0) as games
+       FROM EngagementEvents WHERE FanId = @fanId AND (@before IS NULL OR EventDate < @before)`
     )
-    .get(fanId) as { total: number; games: number };
+    .get({ fanId, before: before ?? null }) as { total: number; games: number };
   return row;
 }
 
-export function getAllInStockMerchandise() {
+/**
+ * "Fans who bought X also bought Y" for each product X the fan has bought: the number
+ * of other fans who bought both X and Y.
+ */
+export function getCoPurchaseCounts(fanId: string, before?: string) {
   return getDb()
     .prepare(
-      `SELECT ProductId as productId, Name as name, Category as category,
-              Team as team, Player as player, Price as price, InStock as inStock
-       FROM Merchandise WHERE InStock = 1`
+      `WITH p AS (SELECT FanId, ProductId FROM Purchases WHERE @before IS NULL OR PurchaseDate < @before)
+       SELECT other.ProductId as productId, mine.ProductId as boughtWith,
+              COUNT(DISTINCT other.FanId) as fans
+       FROM (SELECT DISTINCT ProductId FROM p WHERE FanId = @fanId) mine
+       JOIN p peer ON peer.ProductId = mine.ProductId AND peer.FanId <> @fanId
+       JOIN p other ON other.FanId = peer.FanId AND other.ProductId <> mine.ProductId
+       GROUP BY other.ProductId, mine.ProductId`
     )
-    .all() as {
+    .all({ fanId, before: before ?? null }) as { productId: string; boughtWith: string; fans: number }[];
+}
+
+/**
+ * Distinct buyers per product, optionally limited to one team's fans or to a list of fans.
+ * Fan IDs are passed as a JSON array, as in getPurchaseActivity.
+ */
+export function getProductBuyerCounts(filters: { team?: string; fanIds?: string[]; before?: string } = {}) {
+  return getDb()
+    .prepare(
+      `SELECT p.ProductId as productId, COUNT(DISTINCT p.FanId) as buyers
+       FROM Purchases p JOIN Fans f ON f.FanId = p.FanId
+       WHERE (@team IS NULL OR f.FavoriteTeam = @team)
+         AND (@fanIds IS NULL OR p.FanId IN (SELECT value FROM json_each(@fanIds)))
+         AND (@before IS NULL OR p.PurchaseDate < @before)
+       GROUP BY p.ProductId`
+    )
+    .all({
+      team: filters.team ?? null,
+      fanIds: filters.fanIds ? JSON.stringify(filters.fanIds) : null,
+      before: filters.before ?? null,
+    }) as { productId: string; buyers: number }[];
+}
+
+/** Units the fan has bought per category */
+export function getCategoryPurchaseCounts(fanId: string, before?: string) {
+  return getDb()
+    .prepare(
+      `SELECT m.Category as category, SUM(p.Quantity) as units
+       FROM Purchases p JOIN Merchandise m ON p.ProductId = m.ProductId
+       WHERE p.FanId = @fanId AND (@before IS NULL OR p.PurchaseDate < @before)
+       GROUP BY m.Category`
+    )
+    .all({ fanId, before: before ?? null }) as { category: string; units: number }[];
+}
+
+/** Every purchase in date order, optionally within a date range (inclusive) — the replay input for evaluation */
+export function getPurchasesChronological(startDate?: string, endDate?: string) {
+  return getDb()
+    .prepare(
+      `SELECT PurchaseId as purchaseId, FanId as fanId, ProductId as productId, PurchaseDate as purchaseDate
+       FROM Purchases
+       WHERE (@startDate IS NULL OR PurchaseDate >= @startDate) AND (@endDate IS NULL OR PurchaseDate <= @endDate)
+       ORDER BY PurchaseDate, PurchaseId`
+    )
+    .all({ startDate: startDate ?? null, endDate: endDate ?? null }) as {
+    purchaseId: string;
+    fanId: string;
     productId: string;
-    name: string;
-    category: string;
-    team: string;
-    player: string;
-    price: number;
-    inStock: number;
+    purchaseDate: string;
   }[];
 }
 
@@ -278,6 +621,8 @@ export function insertPromotion(promo: {
   description: string;
   discountPercent: number;
   targetSegment: string;
+  targetTeam: string | null;
+  targetInactiveDays: number | null;
   productCategory: string;
   startDate: string;
   endDate: string;
@@ -285,8 +630,9 @@ export function insertPromotion(promo: {
 }) {
   getDb()
     .prepare(
-      `INSERT INTO Promotions (PromotionId, Name, Description, DiscountPercent, TargetSegment, ProductCategory, StartDate, EndDate, CreatedDate)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO Promotions (PromotionId, Name, Description, DiscountPercent, TargetSegment, TargetTeam, TargetInactiveDays,
+                               ProductCategory, StartDate, EndDate, CreatedDate)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .run(
       promo.promotionId,
@@ -294,6 +640,8 @@ export function insertPromotion(promo: {
       promo.description,
       promo.discountPercent,
       promo.targetSegment,
+      promo.targetTeam,
+      promo.targetInactiveDays,
       promo.productCategory,
       promo.startDate,
       promo.endDate,
@@ -301,50 +649,120 @@ export function insertPromotion(promo: {
     );
 }
 
-export function countTargetFans(segment: string): number {
-  const db = getDb();
-  try {
-    switch (segment) {
-      case "high_engagement": {
-        const rows = db
-          .prepare(
-            `SELECT COUNT(DISTINCT f.FanId) as cnt FROM Fans f
-             JOIN EngagementEvents e ON f.FanId = e.FanId
-             GROUP BY f.FanId HAVING COUNT(e.EventId) >= 4`
-          )
-          .all() as { cnt: number }[];
-        return rows.length;
-      }
-      case "low_engagement": {
-        const row = db
-          .prepare(
-            `SELECT COUNT(*) as cnt FROM Fans f WHERE (
-               SELECT COUNT(*) FROM EngagementEvents e WHERE e.FanId = f.FanId
-             ) < 3`
-          )
-          .get() as { cnt: number };
-        return row.cnt;
-      }
-      case "no_purchases": {
-        const row = db
-          .prepare(
-            `SELECT COUNT(*) as cnt FROM Fans f WHERE f.FanId NOT IN (
-               SELECT DISTINCT FanId FROM Purchases
-             )`
-          )
-          .get() as { cnt: number };
-        return row.cnt;
-      }
-      default: {
-        const row = db.prepare("SELECT COUNT(*) as cnt FROM Fans").get() as {
-          cnt: number;
-        };
-        return row.cnt;
-      }
-    }
-  } catch {
-    return 0;
+// Status is derived, never stored: cancellation is recorded as a date, and the rest
+// follows from StartDate/EndDate relative to "today" (both ends inclusive).
+const PROMOTION_COLUMNS = `PromotionId as promotionId, Name as name, Description as description,
+       DiscountPercent as discountPercent, TargetSegment as targetSegment, TargetTeam as targetTeam,
+       TargetInactiveDays as targetInactiveDays, ProductCategory as productCategory,
+       StartDate as startDate, EndDate as endDate, CreatedDate as createdDate, CancelledDate as cancelledDate,
+       CASE WHEN CancelledDate IS NOT NULL THEN 'cancelled'
+            WHEN StartDate > @today THEN 'scheduled'
+            WHEN EndDate < @today THEN 'expired'
+            ELSE 'active' END as status`;
+
+export function getPromotions(today: string, status?: string) {
+  const statusFilter = status ? "WHERE status = @status" : "";
+  return getDb()
+    .prepare(
+      `SELECT * FROM (SELECT ${PROMOTION_COLUMNS} FROM Promotions) ${statusFilter}
+       ORDER BY startDate DESC, createdDate DESC`
+    )
+    .all({ today, status }) as Promotion[];
+}
+
+export function getPromotionById(promotionId: string, today: string) {
+  return getDb()
+    .prepare(`SELECT ${PROMOTION_COLUMNS} FROM Promotions WHERE PromotionId = @promotionId`)
+    .get({ today, promotionId }) as Promotion | undefined;
+}
+
+/** Non-cancelled promotions whose date window overlaps [startDate, endDate] (inclusive) */
+export function getPromotionsInWindow(startDate: string, endDate: string, today: string) {
+  return getDb()
+    .prepare(
+      `SELECT ${PROMOTION_COLUMNS} FROM Promotions
+       WHERE CancelledDate IS NULL AND StartDate <= @endDate AND EndDate >= @startDate
+       ORDER BY StartDate`
+    )
+    .all({ today, startDate, endDate }) as Promotion[];
+}
+
+/**
+ * Promotions that were running on `date`: its window covers the date (inclusive) and it
+ * hadn't been cancelled by then. A cancellation takes effect on its CancelledDate.
+ */
+export function getPromotionsActiveOn(date: string, today: string) {
+  return getDb()
+    .prepare(
+      `SELECT ${PROMOTION_COLUMNS} FROM Promotions
+       WHERE StartDate <= @date AND EndDate >= @date AND (CancelledDate IS NULL OR CancelledDate > @date)
+       ORDER BY StartDate`
+    )
+    .all({ today, date }) as Promotion[];
+}
+
+export function updatePromotion(
+  promotionId: string,
+  fields: {
+    name: string;
+    description: string | null;
+    discountPercent: number;
+    targetSegment: string;
+    targetTeam: string | null;
+    targetInactiveDays: number | null;
+    productCategory: string;
+    startDate: string;
+    endDate: string;
   }
+) {
+  getDb()
+    .prepare(
+      `UPDATE Promotions SET Name = @name, Description = @description, DiscountPercent = @discountPercent,
+              TargetSegment = @targetSegment, TargetTeam = @targetTeam, TargetInactiveDays = @targetInactiveDays,
+              ProductCategory = @productCategory, StartDate = @startDate, EndDate = @endDate
+       WHERE PromotionId = @promotionId`
+    )
+    .run({ ...fields, promotionId });
+}
+
+export function cancelPromotion(promotionId: string, cancelledDate: string) {
+  getDb()
+    .prepare("UPDATE Promotions SET CancelledDate = ? WHERE PromotionId = ?")
+    .run(cancelledDate, promotionId);
+}
+
+// ── Promotion Performance ──
+
+/**
+ * Daily purchase totals for a set of fans within [startDate, endDate] (inclusive),
+ * optionally restricted to one product category ("all" or undefined means every category).
+ * Fan IDs are passed as a JSON array so audiences of any size fit in one statement.
+ */
+export function getPurchaseActivity(fanIds: string[], startDate: string, endDate: string, category?: string) {
+  const categoryFilter = category && category !== "all" ? "AND m.Category = @category COLLATE NOCASE" : "";
+  const where = `p.FanId IN (SELECT value FROM json_each(@fanIds))
+       AND p.PurchaseDate >= @startDate AND p.PurchaseDate <= @endDate ${categoryFilter}`;
+  const params = { fanIds: JSON.stringify(fanIds), startDate, endDate, category };
+
+  const daily = getDb()
+    .prepare(
+      `SELECT p.PurchaseDate as date, COUNT(*) as orders, SUM(p.Quantity) as units,
+              ROUND(SUM(p.TotalPrice), 2) as revenue
+       FROM Purchases p JOIN Merchandise m ON p.ProductId = m.ProductId
+       WHERE ${where}
+       GROUP BY p.PurchaseDate ORDER BY p.PurchaseDate`
+    )
+    .all(params) as { date: string; orders: number; units: number; revenue: number }[];
+
+  const { buyers } = getDb()
+    .prepare(
+      `SELECT COUNT(DISTINCT p.FanId) as buyers
+       FROM Purchases p JOIN Merchandise m ON p.ProductId = m.ProductId
+       WHERE ${where}`
+    )
+    .get(params) as { buyers: number };
+
+  return { daily, buyers };
 }
 
 // ── Engagement Event Logging ──
@@ -356,17 +774,297 @@ export function fanExists(fanId: string): boolean {
   return row.cnt > 0;
 }
 
+/** Returns false, writing nothing, if an event with the same sourceId was already imported */
 export function insertEngagementEvent(event: {
   eventId: string;
   fanId: string;
   eventType: string;
   eventDate: string;
   details: string;
+  metadata: EventMetadata;
+  sourceId?: string | null;
+}): boolean {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO EngagementEvents (EventId, FanId, EventType, EventDate, Details, Metadata, SourceId)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (SourceId) WHERE SourceId IS NOT NULL DO NOTHING`
+    )
+    .run(
+      event.eventId,
+      event.fanId,
+      event.eventType,
+      event.eventDate,
+      event.details,
+      JSON.stringify(event.metadata),
+      event.sourceId ?? null
+    );
+  return result.changes > 0;
+}
+
+/** Source IDs looked up per query, well under SQLite's limit on bound parameters */
+const SOURCE_ID_CHUNK = 500;
+
+/** The given source IDs that rows of the table were already imported with */
+export function findImportedSourceIds(table: "EngagementEvents" | "Purchases", sourceIds: string[]): Set<string> {
+  const found = new Set<string>();
+  for (let start = 0; start < sourceIds.length; start += SOURCE_ID_CHUNK) {
+    const chunk = sourceIds.slice(start, start + SOURCE_ID_CHUNK);
+    const rows = getDb()
+      .prepare(`SELECT SourceId FROM ${table} WHERE SourceId IN (${chunk.map(() => "?").join(", ")})`)
+      .all(...chunk) as { SourceId: string }[];
+    for (const row of rows) found.add(row.SourceId);
+  }
+  return found;
+}
+
+// ── Event Types ──
+
+/** Event types added with DefineEventType, oldest first */
+export function getCustomEventTypes() {
+  const rows = getDb()
+    .prepare("SELECT Name, Label, Description, Fields FROM EventTypes ORDER BY CreatedDate, Name")
+    .all() as { Name: string; Label: string; Description: string; Fields: string }[];
+  return rows.map((row) => ({
+    name: row.Name,
+    label: row.Label,
+    description: row.Description,
+    fields: JSON.parse(row.Fields) as MetadataField[],
+  }));
+}
+
+export function insertEventType(eventType: { name: string; label: string; description: string; fields: MetadataField[] }) {
+  getDb()
+    .prepare("INSERT INTO EventTypes (Name, Label, Description, Fields, CreatedDate) VALUES (?, ?, ?, ?, ?)")
+    .run(eventType.name, eventType.label, eventType.description, JSON.stringify(eventType.fields), new Date().toISOString());
+}
+
+// ── Fan Records ──
+
+/** The fan other than exceptFanId using this email, compared case-insensitively, or null */
+export function findFanIdByEmail(email: string, exceptFanId?: string): string | null {
+  const row = getDb()
+    .prepare("SELECT FanId FROM Fans WHERE Email = ? COLLATE NOCASE AND FanId IS NOT ? LIMIT 1")
+    .get(email, exceptFanId ?? null) as { FanId: string } | undefined;
+  return row?.FanId ?? null;
+}
+
+export function updateFan(
+  fanId: string,
+  fields: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    favoriteTeam: string;
+    favoritePlayers: string;
+    city: string;
+    state: string;
+  }
+) {
+  getDb()
+    .prepare(
+      `UPDATE Fans SET FirstName = @firstName, LastName = @lastName, Email = @email, FavoriteTeam = @favoriteTeam,
+              FavoritePlayers = @favoritePlayers, City = @city, State = @state
+       WHERE FanId = @fanId`
+    )
+    .run({ ...fields, fanId });
+}
+
+/** Every event for a fan, oldest first */
+export function getFanEngagementEvents(fanId: string) {
+  const rows = getDb()
+    .prepare(
+      `SELECT EventId as eventId, EventType as eventType, EventDate as eventDate, COALESCE(Details, '') as details,
+              Metadata as metadata
+       FROM EngagementEvents WHERE FanId = ? ORDER BY EventDate, EventId`
+    )
+    .all(fanId) as { eventId: string; eventType: string; eventDate: string; details: string; metadata: string }[];
+  return rows.map((row) => ({ ...row, metadata: parseMetadata(row.metadata) }));
+}
+
+/** Every purchase for a fan, oldest first. Product fields are null if the product is gone. */
+export function getFanPurchases(fanId: string) {
+  return getDb()
+    .prepare(
+      `SELECT p.PurchaseId as purchaseId, p.ProductId as productId, m.Name as productName,
+              m.Category as category, p.PurchaseDate as purchaseDate, p.Quantity as quantity,
+              p.TotalPrice as totalPrice, p.PromotionId as promotionId
+       FROM Purchases p LEFT JOIN Merchandise m ON p.ProductId = m.ProductId
+       WHERE p.FanId = ? ORDER BY p.PurchaseDate, p.PurchaseId`
+    )
+    .all(fanId) as {
+    purchaseId: string;
+    productId: string;
+    productName: string | null;
+    category: string | null;
+    purchaseDate: string;
+    quantity: number;
+    totalPrice: number;
+    promotionId: string | null;
+  }[];
+}
+
+/** Removes a fan with their events and purchases. Run inside a transaction. */
+export function deleteFan(fanId: string) {
+  const database = getDb();
+  const purchases = database.prepare("DELETE FROM Purchases WHERE FanId = ?").run(fanId).changes;
+  const engagementEvents = database.prepare("DELETE FROM EngagementEvents WHERE FanId = ?").run(fanId).changes;
+  database.prepare("DELETE FROM Fans WHERE FanId = ?").run(fanId);
+  return { engagementEvents, purchases };
+}
+
+/**
+ * Strips a fan's personal data but keeps the row, so their events and purchases still
+ * count towards segments, metrics and revenue. Team and join date stay; names, email,
+ * location, favorite players and event details and metadata go. Run inside a transaction.
+ */
+export function anonymizeFan(fanId: string) {
+  const database = getDb();
+  database
+    .prepare(
+      `UPDATE Fans SET FirstName = 'Anonymized', LastName = 'Fan', Email = 'anonymized+' || FanId || '@invalid',
+              FavoritePlayers = '', City = '', State = ''
+       WHERE FanId = ?`
+    )
+    .run(fanId);
+  const engagementEvents = database
+    .prepare("UPDATE EngagementEvents SET Details = '', Metadata = '{}' WHERE FanId = ?")
+    .run(fanId).changes;
+  const purchases = (
+    database.prepare("SELECT COUNT(*) as cnt FROM Purchases WHERE FanId = ?").get(fanId) as { cnt: number }
+  ).cnt;
+  return { engagementEvents, purchases };
+}
+
+// ── Resource Listing ──
+
+/** Fans by ID, one page at a time, for resources/list */
+export function listFans(offset: number, limit: number) {
+  return getDb()
+    .prepare(
+      `SELECT FanId as fanId, FirstName || ' ' || LastName as name, FavoriteTeam as favoriteTeam
+       FROM Fans ORDER BY FanId LIMIT ? OFFSET ?`
+    )
+    .all(limit, offset) as { fanId: string; name: string; favoriteTeam: string }[];
+}
+
+export function countFans(): number {
+  return (getDb().prepare("SELECT COUNT(*) as cnt FROM Fans").get() as { cnt: number }).cnt;
+}
+
+/** Products by ID, one page at a time, for resources/list */
+export function listProducts(offset: number, limit: number) {
+  return getDb()
+    .prepare(
+      `SELECT ProductId as productId, Name as name, Category as category, Price as price
+       FROM Merchandise ORDER BY ProductId LIMIT ? OFFSET ?`
+    )
+    .all(limit, offset) as { productId: string; name: string; category: string; price: number }[];
+}
+
+export function countProducts(): number {
+  return (getDb().prepare("SELECT COUNT(*) as cnt FROM Merchandise").get() as { cnt: number }).cnt;
+}
+
+// ── Bulk Writes (data generator / fixtures) ──
+
+export function insertFan(fan: {
+  fanId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  favoriteTeam: string;
+  favoritePlayers: string;
+  joinDate: string;
+  city: string;
+  state: string;
 }) {
   getDb()
     .prepare(
-      `INSERT INTO EngagementEvents (EventId, FanId, EventType, EventDate, Details)
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, FavoritePlayers, JoinDate, City, State)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
-    .run(event.eventId, event.fanId, event.eventType, event.eventDate, event.details);
+    .run(
+      fan.fanId,
+      fan.firstName,
+      fan.lastName,
+      fan.email,
+      fan.favoriteTeam,
+      fan.favoritePlayers,
+      fan.joinDate,
+      fan.city,
+      fan.state
+    );
+}
+
+export function insertProduct(product: {
+  productId: string;
+  name: string;
+  category: string;
+  team: string;
+  player: string;
+  price: number;
+  stockQuantity: number;
+  reorderThreshold: number;
+}) {
+  getDb()
+    .prepare(
+      `INSERT INTO Merchandise (ProductId, Name, Category, Team, Player, Price, InStock, StockQuantity, ReorderThreshold)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      product.productId,
+      product.name,
+      product.category,
+      product.team,
+      product.player,
+      product.price,
+      product.stockQuantity > 0 ? 1 : 0,
+      product.stockQuantity,
+      product.reorderThreshold
+    );
+}
+
+/** Returns false, writing nothing, if a purchase with the same sourceId was already imported */
+export function insertPurchase(purchase: {
+  purchaseId: string;
+  fanId: string;
+  productId: string;
+  purchaseDate: string;
+  quantity: number;
+  totalPrice: number;
+  promotionId?: string | null;
+  sourceId?: string | null;
+}): boolean {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO Purchases (PurchaseId, FanId, ProductId, PurchaseDate, Quantity, TotalPrice, PromotionId, SourceId)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (SourceId) WHERE SourceId IS NOT NULL DO NOTHING`
+    )
+    .run(
+      purchase.purchaseId,
+      purchase.fanId,
+      purchase.productId,
+      purchase.purchaseDate,
+      purchase.quantity,
+      purchase.totalPrice,
+      purchase.promotionId ?? null,
+      purchase.sourceId ?? null
+    );
+  return result.changes > 0;
+}
+
+export function clearAllData() {
+  getDb().exec(`
+    DELETE FROM Purchases;
+    DELETE FROM EngagementEvents;
+    DELETE FROM Promotions;
+    DELETE FROM Merchandise;
+    DELETE FROM Fans;
+  `);
+}
+
+export function runInTransaction<T>(fn: () => T): T {
+  return getDb().transaction(fn)();
 }
@@ -0,0 +1,257 @@
+import * as db from "./database.js";
+import { describeMetadata } from "../engine/event-types.js";
+import type { EngagementEvent, EventMetadata, Fan, MerchProduct, Purchase, TeamName } from "../types.js";
+import { EVENT_TYPES, MERCH_CATEGORIES, TEAMS } from "../types.js";
+
+// Deterministic synthetic data for load tests and CI fixtures.
+// The same options always produce the same rows: every random choice comes from a
+// seeded PRNG, and no IDs or dates are derived from the wall clock once the window is fixed.
+
+export interface GeneratorOptions {
+  seed: number;
+  fans: number;
+  /** First day of the engagement/purchase window (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day of the engagement/purchase window (YYYY-MM-DD) */
+  endDate: string;
+}
+
+export interface GeneratedDataset {
+  fans: Fan[];
+  products: Omit<MerchProduct, "inStock">[];
+  events: EngagementEvent[];
+  purchases: Purchase[];
+}
+
+const DAY_MS = 86400000;
+
+const ROSTERS: Record<TeamName, string[]> = {
+  Thunderbolts: ["Jake Storm", "Anika Patel", "Diego Ruiz"],
+  "River Wolves": ["Carlos Vega", "Mei Lin"],
+  "Summit FC": ["Liam Chen", "Sofia Torres"],
+};
+
+const HOME_CITIES: Record<TeamName, [string, string][]> = {
+  Thunderbolts: [["Denver", "CO"], ["Boulder", "CO"], ["Aurora", "CO"], ["Lakewood", "CO"], ["Littleton", "CO"]],
+  "River Wolves": [["Portland", "OR"], ["Eugene", "OR"], ["Bend", "OR"], ["Seattle", "WA"], ["Salem", "OR"]],
+  "Summit FC": [["Aspen", "CO"], ["Fort Collins", "CO"], ["Vail", "CO"], ["Breckenridge", "CO"], ["Colorado Springs", "CO"]],
+};
+
+const FIRST_NAMES = [
+  "Maria", "James", "Priya", "Tyler", "Sarah", "Marcus", "Elena", "David", "Aisha", "Chris",
+  "Jessica", "Robert", "Noah", "Olivia", "Mateo", "Hana", "Kwame", "Lucia", "Omar", "Grace",
+  "Ethan", "Zoe", "Ravi", "Chloe", "Andre", "Nina", "Samuel", "Yuki", "Leah", "Diego",
+];
+
+const LAST_NAMES = [
+  "Rodriguez", "O'Brien", "Sharma", "Washington", "Kim", "Johnson", "Petrov", "Nakamura",
+  "Hassan", "Anderson", "Lee", "Garcia", "Nguyen", "Okafor", "Silva", "Schmidt", "Cohen",
+  "Martin", "Patel", "Brown", "Lopez", "Ivanova", "Murphy", "Tanaka", "Reyes",
+];
+
+// Activity profiles control how many events and purchases a fan gets, and how
+// game-heavy their history is. Weights roughly match the segment mix of the seed data.
+const PROFILES = [
+  { name: "superfan", weight: 0.15, events: [8, 20], purchaseChance: 0.9, purchases: [1, 5], gameShare: 0.5 },
+  { name: "regular", weight: 0.3, events: [3, 9], purchaseChance: 0.5, purchases: [1, 3], gameShare: 0.35 },
+  { name: "casual", weight: 0.35, events: [1, 3], purchaseChance: 0.25, purchases: [1, 2], gameShare: 0.2 },
+  { name: "dormant", weight: 0.2, events: [0, 1], purchaseChance: 0.1, purchases: [1, 1], gameShare: 0.1 },
+] as const;
+
+type Profile = (typeof PROFILES)[number];
+
+// Catalog templates per category: [name suffix, base price, player-specific]
+const CATALOG: Record<(typeof MERCH_CATEGORIES)[number], [string, number, boolean][]> = {
+  Jersey: [["Home Jersey", 89.99, false], ["Away Jersey", 89.99, false], ["Jersey", 109.99, true]],
+  Hat: [["Snapback Hat", 29.99, false], ["Beanie", 24.99, false]],
+  Accessory: [["Scarf", 19.99, false], ["Lanyard", 9.99, false]],
+  Drinkware: [["Coffee Mug", 14.99, false], ["Water Bottle", 22.99, false]],
+  Apparel: [["Hoodie", 64.99, false], ["T-Shirt", 34.99, false], ["Name & Number Tee", 39.99, true]],
+  Equipment: [["Mini Soccer Ball", 19.99, false], ["Training Ball", 44.99, false]],
+  Collectible: [["Pin Set", 15.99, false], ["Autographed Photo", 49.99, true]],
+};
+
+/** mulberry32 — tiny, fast, and good enough for fixture data */
+function createRng(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    chance: (p: number) => next() < p,
+  };
+}
+
+type Rng = ReturnType<typeof createRng>;
+
+function toDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function pad(n: number, width: number): string {
+  return String(n).padStart(width, "0");
+}
+
+function pickProfile(rng: Rng): Profile {
+  let roll = rng.next();
+  for (const profile of PROFILES) {
+    roll -= profile.weight;
+    if (roll < 0) return profile;
+  }
+  return PROFILES[PROFILES.length - 1];
+}
+
+function generateCatalog(rng: Rng): Omit<MerchProduct, "inStock">[] {
+  const products: Omit<MerchProduct, "inStock">[] = [];
+  for (const team of TEAMS) {
+    for (const category of MERCH_CATEGORIES) {
+      for (const [suffix, basePrice, perPlayer] of CATALOG[category]) {
+        const players = perPlayer ? ROSTERS[team] : [""];
+        for (const player of players) {
+          // Nudge prices per team so catalogs aren't identical, keeping the .99 endings
+          const price = Math.max(4.99, Math.round(basePrice + rng.int(-3, 3)) - 0.01);
+          products.push({
+            productId: `prod-g${pad(products.length + 1, 4)}`,
+            name: player ? `${player} ${suffix}` : `${team} ${suffix}`,
+            category,
+            team,
+            player,
+            price,
+            stockQuantity: rng.chance(0.9) ? rng.int(1, 60) : 0,
+            reorderThreshold: 5,
+          });
+        }
+      }
+    }
+  }
+  return products;
+}
+
+function eventMetadata(rng: Rng, eventType: string, team: TeamName, favoritePlayer: string): EventMetadata {
+  switch (eventType) {
+    case "game_attendance":
+      return { opponent: rng.pick(TEAMS.filter((t) => t !== team)), venue: rng.chance(0.7) ? "home" : "away" };
+    case "app_open":
+      return { screen: rng.pick(["scores", "merchandise", "schedule", "tickets"]) };
+    case "social_share":
+      return { platform: rng.pick(["instagram", "x", "facebook", "tiktok"]) };
+    case "content_view":
+      return rng.pick<EventMetadata>([
+        { contentType: "interview", title: `Player interview: ${favoritePlayer}`, player: favoritePlayer },
+        { contentType: "article", title: "Team news" },
+        { contentType: "video", title: "Season recap" },
+      ]);
+    default:
+      return {};
+  }
+}
+
+/**
+ * Builds a complete dataset in memory. Pure — nothing touches the database here,
+ * so the output can be inspected or snapshotted before writing.
+ */
+export function generateDataset(options: GeneratorOptions): GeneratedDataset {
+  const rng = createRng(options.seed);
+  const windowStart = Date.parse(options.startDate);
+  const windowEnd = Date.parse(options.endDate);
+  if (Number.isNaN(windowStart) || Number.isNaN(windowEnd) || windowEnd < windowStart) {
+    throw new Error(`Invalid date range: ${options.startDate} → ${options.endDate}`);
+  }
+
+  const products = generateCatalog(rng);
+  const fans: Fan[] = [];
+  const events: EngagementEvent[] = [];
+  const purchases: Purchase[] = [];
+
+  for (let i = 1; i <= options.fans; i++) {
+    const team = rng.pick(TEAMS);
+    const roster = ROSTERS[team];
+    const favorites = [...new Set([rng.pick(roster), rng.pick(roster)])].slice(0, rng.int(1, 2));
+    const [city, state] = rng.pick(HOME_CITIES[team]);
+    const firstName = rng.pick(FIRST_NAMES);
+    const lastName = rng.pick(LAST_NAMES);
+    // Fans joined up to two years before the window opens, or during it
+    const joinMs = rng.int(windowStart - 730 * DAY_MS, windowEnd);
+
+    const fan: Fan = {
+      fanId: `fan-g${pad(i, 5)}`,
+      firstName,
+      lastName,
+      email: `${firstName}.${lastName}.${i}@example.com`.toLowerCase().replace(/'/g, ""),
+      favoriteTeam: team,
+      favoritePlayers: favorites.join(", "),
+      joinDate: toDate(joinMs),
+      city,
+      state,
+    };
+    fans.push(fan);
+
+    const profile = pickProfile(rng);
+    const activeFrom = Math.max(windowStart, joinMs);
+
+    const eventCount = rng.int(profile.events[0], profile.events[1]);
+    for (let e = 0; e < eventCount; e++) {
+      const eventType = rng.chance(profile.gameShare)
+        ? "game_attendance"
+        : rng.pick(EVENT_TYPES.filter((t) => t !== "game_attendance"));
+      const eventDate = toDate(rng.int(activeFrom, windowEnd));
+      const metadata = eventMetadata(rng, eventType, team, favorites[0]);
+      events.push({
+        eventId: `evt-g${pad(events.length + 1, 7)}`,
+        fanId: fan.fanId,
+        eventType,
+        eventDate,
+        details: describeMetadata(metadata),
+        metadata,
+      });
+    }
+
+    if (!rng.chance(profile.purchaseChance)) continue;
+
+    // Most purchases are for the fan's own team, with a bias toward favorite players
+    const teamProducts = products.filter((p) => p.team === team);
+    const favoriteProducts = teamProducts.filter((p) => p.player && favorites.includes(p.player));
+    const purchaseCount = rng.int(profile.purchases[0], profile.purchases[1]);
+    for (let p = 0; p < purchaseCount; p++) {
+      const pool =
+        favoriteProducts.length > 0 && rng.chance(0.4)
+          ? favoriteProducts
+          : rng.chance(0.85)
+            ? teamProducts
+            : products;
+      const product = rng.pick(pool);
+      const quantity = rng.chance(0.85) ? 1 : rng.int(2, 3);
+      purchases.push({
+        purchaseId: `pur-g${pad(purchases.length + 1, 6)}`,
+        fanId: fan.fanId,
+        productId: product.productId,
+        purchaseDate: toDate(rng.int(activeFrom, windowEnd)),
+        quantity,
+        totalPrice: Math.round(product.price * quantity * 100) / 100,
+      });
+    }
+  }
+
+  return { fans, products, events, purchases };
+}
+
+/**
+ * Writes a generated dataset through database.ts in a single transaction.
+ * With `reset`, existing rows in all FanPulse tables are removed first.
+ */
+export function writeDataset(dataset: GeneratedDataset, options: { reset?: boolean } = {}) {
+  db.runInTransaction(() => {
+    if (options.reset) db.clearAllData();
+    for (const fan of dataset.fans) db.insertFan(fan);
+    for (const product of dataset.products) db.insertProduct(product);
+    for (const event of dataset.events) db.insertEngagementEvent(event);
+    for (const purchase of dataset.purchases) db.insertPurchase(purchase);
+  });
+}
@@ -0,0 +1,353 @@
+import * as db from "./database.js";
+import { describeMetadata, getEventTypes, validateMetadata } from "../engine/event-types.js";
+import { isValidDate } from "../engine/promotions.js";
+import type { EventMetadata, EventType, ImportFormat, ImportReport, ImportRowError } from "../types.js";
+
+// Bulk ingestion of the daily files our ticketing and e-commerce systems export, used by
+// cli/import-data.ts and the ImportEngagementEvents tool. Every row carries the ID it has
+// in the source system, so re-importing a file skips what's already in. A bad row is
+// reported and skipped rather than failing the file, and rows are written in batches,
+// one transaction per batch.
+
+/** Rows written per transaction when the caller doesn't choose */
+export const DEFAULT_BATCH_SIZE = 500;
+
+/** A problem with the file as a whole, such as a missing column, that stops any row being read */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  /** Validate and count without writing anything */
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+/** One record from the file, or why it couldn't be read */
+interface ImportRecord {
+  line: number;
+  values: Record<string, unknown> | null;
+  parseError?: string;
+}
+
+const EVENT_COLUMNS = ["sourceId", "fanId", "eventType", "eventDate"];
+const PURCHASE_COLUMNS = ["sourceId", "fanId", "productId", "purchaseDate", "totalPrice"];
+
+// ── Parsing ──
+
+/** RFC 4180 CSV: a header row, comma-separated cells, "" escaping quotes inside quoted cells */
+function parseCsv(text: string, requiredColumns: string[]): ImportRecord[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    // Skip blank lines, including a trailing newline at the end of the file
+    if (cells.length > 1 || cells[0] !== "") rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^﻿/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+      quoteLine = line;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new ImportFormatError(`Unterminated quoted cell starting on line ${quoteLine}`);
+  endRow();
+
+  const [header, ...records] = rows;
+  if (!header) throw new ImportFormatError("The file is empty");
+  const columns = header.cells.map((c) => c.trim());
+  const missing = requiredColumns.filter((c) => !columns.includes(c));
+  if (missing.length > 0) throw new ImportFormatError(`Missing column${missing.length !== 1 ? "s" : ""}: ${missing.join(", ")}`);
+
+  return records.map(({ line, cells }) =>
+    cells.length !== columns.length
+      ? { line, values: null, parseError: `Expected ${columns.length} cells, found ${cells.length}` }
+      : { line, values: Object.fromEntries(columns.map((column, i) => [column, cells[i]])) }
+  );
+}
+
+/** One JSON object per line; blank lines are skipped */
+function parseNdjson(text: string): ImportRecord[] {
+  const records: ImportRecord[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    try {
+      const value: unknown = JSON.parse(raw);
+      records.push(
+        value && typeof value === "object" && !Array.isArray(value)
+          ? { line: i + 1, values: value as Record<string, unknown> }
+          : { line: i + 1, values: null, parseError: "Each line must be a JSON object" }
+      );
+    } catch {
+      records.push({ line: i + 1, values: null, parseError: "Not valid JSON" });
+    }
+  });
+  return records;
+}
+
+function parseRecords(text: string, format: ImportFormat, requiredColumns: string[]): ImportRecord[] {
+  return format === "csv" ? parseCsv(text, requiredColumns) : parseNdjson(text);
+}
+
+// ── Row validation ──
+
+type Checked<T> = { row: T } | { error: string };
+
+type EventRow = Parameters<typeof db.insertEngagementEvent>[0] & { sourceId: string };
+type PurchaseRow = Parameters<typeof db.insertPurchase>[0] & { sourceId: string };
+
+/** A cell as trimmed text; numbers from NDJSON count as text, anything else as empty */
+function text(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+/** YYYY-MM-DD from a date or an ISO timestamp, or null if it isn't a real date */
+function toDate(value: unknown): string | null {
+  const date = text(value).slice(0, 10);
+  return isValidDate(date) ? date : null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  const t = text(value);
+  return t && Number.isFinite(Number(t)) ? Number(t) : null;
+}
+
+/** Looks up each key once per import */
+function memo<T>(lookup: (key: string) => T): (key: string) => T {
+  const cache = new Map<string, T>();
+  return (key) => {
+    if (!cache.has(key)) cache.set(key, lookup(key));
+    return cache.get(key)!;
+  };
+}
+
+/** CSV cells are all text; turn those meant for number and boolean fields into numbers and booleans */
+function coerceMetadata(eventType: EventType, metadata: Record<string, unknown>): Record<string, unknown> {
+  const coerced = { ...metadata };
+  for (const field of eventType.fields) {
+    const value = coerced[field.name];
+    if (typeof value !== "string" || !value.trim()) continue;
+    if (field.type === "number" || field.type === "integer") {
+      coerced[field.name] = toNumber(value) ?? value;
+    } else if (field.type === "boolean") {
+      const flag = value.trim().toLowerCase();
+      if (["true", "yes", "1"].includes(flag)) coerced[field.name] = true;
+      else if (["false", "no", "0"].includes(flag)) coerced[field.name] = false;
+    }
+  }
+  return coerced;
+}
+
+function eventChecker(format: ImportFormat) {
+  const eventTypes = new Map(getEventTypes().map((t) => [t.name, t]));
+  const fanExists = memo(db.fanExists);
+
+  return (values: Record<string, unknown>): Checked<EventRow> => {
+    const { sourceId: rawSourceId, fanId: rawFanId, eventType: typeName, eventDate: rawDate, details, metadata, ...extra } = values;
+    const sourceId = text(rawSourceId);
+    if (!sourceId) return { error: "sourceId is required" };
+    const fanId = text(rawFanId);
+    if (!fanId || !fanExists(fanId)) return { error: fanId ? `Fan ${fanId} not found` : "fanId is required" };
+    const eventType = eventTypes.get(text(typeName));
+    if (!eventType) return { error: typeName ? `Unknown event type "${text(typeName)}"` : "eventType is required" };
+    const eventDate = toDate(rawDate);
+    if (!eventDate) return { error: "eventDate must be a YYYY-MM-DD date" };
+    // Only CSV, which has no nested objects, takes metadata fields as extra columns
+    const unknown = Object.keys(extra);
+    if (format === "ndjson" && unknown.length > 0) {
+      return { error: `Unknown field${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")}; put metadata fields in the metadata object` };
+    }
+
+    // Metadata comes from a metadata object (a JSON string in CSV), any other columns, and details as the note
+    let base: Record<string, unknown> = {};
+    if (typeof metadata === "string" && metadata.trim()) {
+      try {
+        base = JSON.parse(metadata);
+      } catch {
+        return { error: "metadata is not valid JSON" };
+      }
+    } else if (metadata && typeof metadata === "object") {
+      base = metadata as Record<string, unknown>;
+    }
+    if (!base || typeof base !== "object" || Array.isArray(base)) return { error: "metadata must be a JSON object" };
+    const checked = validateMetadata(eventType, coerceMetadata(eventType, { note: details, ...extra, ...base }));
+    if (checked.issues.length > 0) {
+      return { error: `Invalid metadata: ${checked.issues.map((i) => `${i.field} (${i.message})`).join("; ")}` };
+    }
+
+    const eventMetadata: EventMetadata = checked.metadata;
+    return {
+      row: {
+        eventId: `evt-${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+        fanId,
+        eventType: eventType.name,
+        eventDate,
+        details: describeMetadata(eventMetadata),
+        metadata: eventMetadata,
+        sourceId,
+      },
+    };
+  };
+}
+
+function purchaseChecker() {
+  const today = new Date().toISOString().slice(0, 10);
+  const fanExists = memo(db.fanExists);
+  const productExists = memo((productId) => db.getProductById(productId) !== undefined);
+  const promotionExists = memo((promotionId) => db.getPromotionById(promotionId, today) !== undefined);
+
+  return (values: Record<string, unknown>): Checked<PurchaseRow> => {
+    const sourceId = text(values.sourceId);
+    if (!sourceId) return { error: "sourceId is required" };
+    const fanId = text(values.fanId);
+    if (!fanId || !fanExists(fanId)) return { error: fanId ? `Fan ${fanId} not found` : "fanId is required" };
+    const productId = text(values.productId);
+    if (!productId || !productExists(productId)) {
+      return { error: productId ? `Product ${productId} not found` : "productId is required" };
+    }
+    const purchaseDate = toDate(values.purchaseDate);
+    if (!purchaseDate) return { error: "purchaseDate must be a YYYY-MM-DD date" };
+    const quantity = text(values.quantity) ? toNumber(values.quantity) : 1;
+    if (quantity === null || !Number.isInteger(quantity) || quantity < 1) {
+      return { error: "quantity must be a whole number of at least 1" };
+    }
+    const totalPrice = toNumber(values.totalPrice);
+    if (totalPrice === null || totalPrice < 0) return { error: "totalPrice must be a number of at least 0" };
+    const promotionId = text(values.promotionId) || null;
+    if (promotionId && !promotionExists(promotionId)) return { error: `Promotion ${promotionId} not found` };
+
+    return {
+      row: {
+        purchaseId: `pur-${crypto.randomUUID().replace(/-/g, "").slice(0, 12)}`,
+        fanId,
+        productId,
+        purchaseDate,
+        quantity,
+        totalPrice: Math.round(totalPrice * 100) / 100,
+        promotionId,
+        sourceId,
+      },
+    };
+  };
+}
+
+// ── Import ──
+
+function runImport<T extends { sourceId: string }>(
+  records: ImportRecord[],
+  options: ImportOptions,
+  table: "EngagementEvents" | "Purchases",
+  check: (values: Record<string, unknown>) => Checked<T>,
+  insert: (row: T) => boolean
+): ImportReport {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const report: ImportReport = {
+    format: options.format,
+    dryRun: options.dryRun ?? false,
+    totalRows: records.length,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    errors: [],
+  };
+  const fail = (error: ImportRowError) => {
+    report.failed++;
+    report.errors.push(error);
+  };
+  // Source IDs seen earlier in this file
+  const seen = new Set<string>();
+
+  for (let start = 0; start < records.length; start += batchSize) {
+    const valid: T[] = [];
+    for (const record of records.slice(start, start + batchSize)) {
+      if (!record.values) {
+        fail({ line: record.line, sourceId: null, message: record.parseError ?? "Unreadable row" });
+        continue;
+      }
+      const checked = check(record.values);
+      if ("error" in checked) {
+        fail({ line: record.line, sourceId: text(record.values.sourceId) || null, message: checked.error });
+      } else if (seen.has(checked.row.sourceId)) {
+        report.duplicates++;
+      } else {
+        seen.add(checked.row.sourceId);
+        valid.push(checked.row);
+      }
+    }
+
+    const imported = db.findImportedSourceIds(table, valid.map((r) => r.sourceId));
+    const fresh = valid.filter((r) => !imported.has(r.sourceId));
+    report.duplicates += valid.length - fresh.length;
+    if (report.dryRun) {
+      report.imported += fresh.length;
+      continue;
+    }
+    db.runInTransaction(() => {
+      // A row another import wrote since the check above is still a duplicate, not an error
+      for (const row of fresh) {
+        if (insert(row)) report.imported++;
+        else report.duplicates++;
+      }
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Imports engagement events: sourceId, fanId, eventType and eventDate, plus an optional
+ * details note and metadata — a JSON object, or in CSV any other columns as fields. NDJSON
+ * rows with any other key fail. Throws ImportFormatError if the file can't be read at all.
+ */
+export function importEngagementEvents(text: string, options: ImportOptions): ImportReport {
+  const records = parseRecords(text, options.format, EVENT_COLUMNS);
+  return runImport<EventRow>(records, options, "EngagementEvents", eventChecker(options.format), db.insertEngagementEvent);
+}
+
+/**
+ * Imports purchases as recorded by the source system: sourceId, fanId, productId,
+ * purchaseDate and totalPrice, plus optional quantity (default 1) and promotionId.
+ * Stock levels aren't changed. Throws ImportFormatError if the file can't be read at all.
+ */
+export function importPurchases(text: string, options: ImportOptions): ImportReport {
+  const records = parseRecords(text, options.format, PURCHASE_COLUMNS);
+  return runImport<PurchaseRow>(records, options, "Purchases", purchaseChecker(), db.insertPurchase);
+}
@@ -0,0 +1,262 @@
+import type Database from "better-sqlite3";
+
+// Versioned schema migrations for fanpulse.db.
+// Each migration runs once, inside a transaction, and is recorded in SchemaMigrations.
+// Append new migrations to the end of the list — never edit or reorder one that has shipped.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    // Mirrors DatabaseInitializer.cs. IF NOT EXISTS keeps this a no-op on databases
+    // the C# server already created.
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS Fans (
+          FanId TEXT PRIMARY KEY,
+          FirstName TEXT NOT NULL,
+          LastName TEXT NOT NULL,
+          Email TEXT NOT NULL,
+          FavoriteTeam TEXT,
+          FavoritePlayers TEXT,
+          JoinDate TEXT NOT NULL,
+          City TEXT,
+          State TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS EngagementEvents (
+          EventId TEXT PRIMARY KEY,
+          FanId TEXT NOT NULL,
+          EventType TEXT NOT NULL,
+          EventDate TEXT NOT NULL,
+          Details TEXT,
+          FOREIGN KEY (FanId) REFERENCES Fans(FanId)
+        );
+
+        CREATE TABLE IF NOT EXISTS Merchandise (
+          ProductId TEXT PRIMARY KEY,
+          Name TEXT NOT NULL,
+          Category TEXT NOT NULL,
+          Team TEXT,
+          Player TEXT,
+          Price REAL NOT NULL,
+          ImageUrl TEXT,
+          InStock INTEGER NOT NULL DEFAULT 1
+        );
+
+        CREATE TABLE IF NOT EXISTS Purchases (
+          PurchaseId TEXT PRIMARY KEY,
+          FanId TEXT NOT NULL,
+          ProductId TEXT NOT NULL,
+          PurchaseDate TEXT NOT NULL,
+          Quantity INTEGER NOT NULL DEFAULT 1,
+          TotalPrice REAL NOT NULL,
+          FOREIGN KEY (FanId) REFERENCES Fans(FanId),
+          FOREIGN KEY (ProductId) REFERENCES Merchandise(ProductId)
+        );
+
+        CREATE TABLE IF NOT EXISTS Promotions (
+          PromotionId TEXT PRIMARY KEY,
+          Name TEXT NOT NULL,
+          Description TEXT,
+          DiscountPercent REAL,
+          TargetSegment TEXT,
+          ProductCategory TEXT,
+          StartDate TEXT NOT NULL,
+          EndDate TEXT NOT NULL,
+          CreatedDate TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "promotion_target_team",
+    // Promotions can narrow their segment to a single team's fans
+    up: (db) => {
+      db.exec("ALTER TABLE Promotions ADD COLUMN TargetTeam TEXT");
+    },
+  },
+  {
+    version: 3,
+    name: "promotion_cancellation",
+    // A cancelled promotion keeps its row (and its history) but stops being active
+    up: (db) => {
+      db.exec("ALTER TABLE Promotions ADD COLUMN CancelledDate TEXT");
+    },
+  },
+  {
+    version: 4,
+    name: "purchase_promotion",
+    // The promotion (if any) whose discount was applied to a purchase
+    up: (db) => {
+      db.exec("ALTER TABLE Purchases ADD COLUMN PromotionId TEXT REFERENCES Promotions(PromotionId)");
+    },
+  },
+  {
+    version: 5,
+    name: "inventory_quantities",
+    // Replace the boolean InStock flag with a quantity on hand and a reorder threshold.
+    // Existing in-stock items start with a nominal 25 units.
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE Merchandise ADD COLUMN StockQuantity INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE Merchandise ADD COLUMN ReorderThreshold INTEGER NOT NULL DEFAULT 5;
+        UPDATE Merchandise SET StockQuantity = CASE WHEN InStock = 1 THEN 25 ELSE 0 END;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "merchandise_search",
+    // Full-text index over the searchable product fields, kept in sync by triggers so
+    // writes from the C# server are indexed too. MerchandiseSearchTerms lists the indexed
+    // words, which typo-tolerant search matches misspellings against.
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE MerchandiseSearch USING fts5(
+          Name, Team, Player, Category,
+          content='Merchandise', content_rowid='rowid',
+          tokenize="unicode61 remove_diacritics 2"
+        );
+        CREATE VIRTUAL TABLE MerchandiseSearchTerms USING fts5vocab(MerchandiseSearch, 'row');
+
+        CREATE TRIGGER Merchandise_search_insert AFTER INSERT ON Merchandise BEGIN
+          INSERT INTO MerchandiseSearch(rowid, Name, Team, Player, Category)
+          VALUES (new.rowid, new.Name, new.Team, new.Player, new.Category);
+        END;
+        CREATE TRIGGER Merchandise_search_delete AFTER DELETE ON Merchandise BEGIN
+          INSERT INTO MerchandiseSearch(MerchandiseSearch, rowid, Name, Team, Player, Category)
+          VALUES ('delete', old.rowid, old.Name, old.Team, old.Player, old.Category);
+        END;
+        CREATE TRIGGER Merchandise_search_update AFTER UPDATE OF Name, Team, Player, Category ON Merchandise BEGIN
+          INSERT INTO MerchandiseSearch(MerchandiseSearch, rowid, Name, Team, Player, Category)
+          VALUES ('delete', old.rowid, old.Name, old.Team, old.Player, old.Category);
+          INSERT INTO MerchandiseSearch(rowid, Name, Team, Player, Category)
+          VALUES (new.rowid, new.Name, new.Team, new.Player, new.Category);
+        END;
+
+        INSERT INTO MerchandiseSearch(MerchandiseSearch) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "event_metadata",
+    // Structured event data as a JSON object in Metadata. Details stays as a one-line
+    // summary for the C# server, and free text already in it becomes the "note" field —
+    // including on rows the C# server inserts later, via the trigger. EventTypes holds
+    // the event types added at runtime, each with its metadata fields as JSON.
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE EngagementEvents ADD COLUMN Metadata TEXT NOT NULL DEFAULT '{}';
+        UPDATE EngagementEvents SET Metadata = json_object('note', Details)
+        WHERE Details IS NOT NULL AND Details <> '';
+
+        CREATE TRIGGER EngagementEvents_metadata_note AFTER INSERT ON EngagementEvents
+        WHEN new.Metadata = '{}' AND new.Details IS NOT NULL AND new.Details <> '' BEGIN
+          UPDATE EngagementEvents SET Metadata = json_object('note', new.Details) WHERE EventId = new.EventId;
+        END;
+
+        CREATE TABLE EventTypes (
+          Name TEXT PRIMARY KEY,
+          Label TEXT NOT NULL,
+          Description TEXT NOT NULL,
+          Fields TEXT NOT NULL,
+          CreatedDate TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "import_source_ids",
+    // The ID a bulk-imported row had in the system it came from, so importing the same
+    // file twice skips the rows already imported. Rows logged directly have none.
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE EngagementEvents ADD COLUMN SourceId TEXT;
+        CREATE UNIQUE INDEX EngagementEvents_source ON EngagementEvents(SourceId) WHERE SourceId IS NOT NULL;
+        ALTER TABLE Purchases ADD COLUMN SourceId TEXT;
+        CREATE UNIQUE INDEX Purchases_source ON Purchases(SourceId) WHERE SourceId IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "stock_quantity_sync",
+    // The C# server and older seed scripts still write only InStock, which left their rows
+    // in stock with no units. These triggers give such rows the same nominal 25 units as
+    // migration 5, and marking a product out of stock empties it. Rows already affected
+    // are repaired here.
+    up: (db) => {
+      db.exec(`
+        CREATE TRIGGER Merchandise_stock_insert AFTER INSERT ON Merchandise
+        WHEN new.InStock = 1 AND new.StockQuantity = 0 BEGIN
+          UPDATE Merchandise SET StockQuantity = 25 WHERE rowid = new.rowid;
+        END;
+        CREATE TRIGGER Merchandise_stock_update AFTER UPDATE OF InStock ON Merchandise
+        WHEN (new.InStock = 1) <> (new.StockQuantity > 0) BEGIN
+          UPDATE Merchandise SET StockQuantity = CASE WHEN new.InStock = 1 THEN 25 ELSE 0 END
+          WHERE rowid = new.rowid;
+        END;
+
+        UPDATE Merchandise SET StockQuantity = 25 WHERE InStock = 1 AND StockQuantity = 0;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "promotion_target_inactive_days",
+    // Promotions can narrow their segment to fans who had gone quiet for this many days
+    up: (db) => {
+      db.exec("ALTER TABLE Promotions ADD COLUMN TargetInactiveDays INTEGER");
+    },
+  },
+];
+
+function ensureMigrationsTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS SchemaMigrations (
+      Version INTEGER PRIMARY KEY,
+      Name TEXT NOT NULL,
+      AppliedDate TEXT NOT NULL
+    )
+  `);
+}
+
+export function getAppliedVersions(db: Database.Database): Set<number> {
+  ensureMigrationsTable(db);
+  const rows = db.prepare("SELECT Version FROM SchemaMigrations").all() as { Version: number }[];
+  return new Set(rows.map((r) => r.Version));
+}
+
+/**
+ * Applies every migration whose version is not yet recorded, in version order.
+ * Returns the versions applied by this call (empty when the schema is current).
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): number[] {
+  const applied = getAppliedVersions(db);
+  const pending = migrations
+    .filter((m) => !applied.has(m.version))
+    .sort((a, b) => a.version - b.version);
+
+  const record = db.prepare(
+    "INSERT INTO SchemaMigrations (Version, Name, AppliedDate) VALUES (?, ?, ?)"
+  );
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return pending.map((m) => m.version);
+}
@@ -0,0 +1,135 @@
+import * as db from "../data/database.js";
+import {
+  getSegmentMembership,
+  loadRecommendationContext,
+  rankProducts,
+  RECOMMENDATION_STRATEGIES,
+  type RecommendationContext,
+  type RecommendationStrategy,
+  type SegmentMembership,
+} from "./recommendations.js";
+
+// Offline evaluation of the recommender. Purchases are replayed in date order; for each one
+// the recommender only sees data from before the purchase date, and we check whether the
+// product actually bought shows up in its top k.
+
+export interface EvaluationOptions {
+  k: number;
+  strategies: RecommendationStrategy[];
+  /** Only replay purchases on or after this date (YYYY-MM-DD) */
+  startDate?: string;
+  /** Only replay purchases on or before this date (YYYY-MM-DD) */
+  endDate?: string;
+  /** Stop after this many evaluated purchases */
+  maxPurchases?: number;
+}
+
+export interface StrategyResult {
+  strategy: RecommendationStrategy;
+  hits: number;
+  /** Share of evaluated purchases whose product was in the top k */
+  hitRate: number;
+  /** Mean reciprocal rank of the purchased product, counting 0 when it is outside the top k */
+  mrr: number;
+  /** Share of the catalog recommended at least once */
+  coverage: number;
+  productsRecommended: number;
+}
+
+export interface EvaluationReport {
+  k: number;
+  catalogSize: number;
+  purchasesReplayed: number;
+  evaluated: number;
+  /** Repeat purchases can't be hits — the recommender never suggests something already bought */
+  skippedRepeatPurchases: number;
+  skippedUnknownFans: number;
+  results: StrategyResult[];
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function isRecommendationStrategy(value: string): value is RecommendationStrategy {
+  return Object.hasOwn(RECOMMENDATION_STRATEGIES, value);
+}
+
+export function evaluateRecommendations(options: EvaluationOptions): EvaluationReport {
+  const { k, strategies } = options;
+  const catalog = db.searchMerchandise({ inStockOnly: false });
+  const purchases = db.getPurchasesChronological(options.startDate, options.endDate);
+
+  const totals = new Map(
+    strategies.map((strategy) => [strategy, { hits: 0, reciprocalRanks: 0, recommended: new Set<string>() }])
+  );
+  let evaluated = 0;
+  let skippedRepeatPurchases = 0;
+  let skippedUnknownFans = 0;
+  let purchasesReplayed = 0;
+
+  // Purchases arrive in date order, so segment membership and a fan's context only
+  // need recomputing when the date (or the fan) changes
+  let segmentsAsOf: string | null = null;
+  let segments: SegmentMembership = new Map();
+  let contextKey: string | null = null;
+  let ctx: RecommendationContext | null = null;
+
+  for (const purchase of purchases) {
+    if (options.maxPurchases !== undefined && evaluated >= options.maxPurchases) break;
+    purchasesReplayed++;
+
+    const asOf = purchase.purchaseDate;
+    if (segmentsAsOf !== asOf) {
+      segments = getSegmentMembership(asOf);
+      segmentsAsOf = asOf;
+    }
+    const key = `${purchase.fanId}|${asOf}`;
+    if (contextKey !== key) {
+      ctx = loadRecommendationContext(purchase.fanId, { asOf, catalog, segments });
+      contextKey = key;
+    }
+
+    if (!ctx) {
+      skippedUnknownFans++;
+      continue;
+    }
+    if (ctx.purchased.has(purchase.productId)) {
+      skippedRepeatPurchases++;
+      continue;
+    }
+
+    evaluated++;
+    for (const strategy of strategies) {
+      const top = rankProducts(ctx, catalog, { strategy, limit: k });
+      const totalsForStrategy = totals.get(strategy)!;
+      for (const rec of top) totalsForStrategy.recommended.add(rec.product.productId);
+      const rank = top.findIndex((rec) => rec.product.productId === purchase.productId);
+      if (rank >= 0) {
+        totalsForStrategy.hits++;
+        totalsForStrategy.reciprocalRanks += 1 / (rank + 1);
+      }
+    }
+  }
+
+  return {
+    k,
+    catalogSize: catalog.length,
+    purchasesReplayed,
+    evaluated,
+    skippedRepeatPurchases,
+    skippedUnknownFans,
+    results: strategies.map((strategy) => {
+      const t = totals.get(strategy)!;
+      return {
+        strategy,
+        hits: t.hits,
+        hitRate: evaluated > 0 ? round(t.hits / evaluated) : 0,
+        mrr: evaluated > 0 ? round(t.reciprocalRanks / evaluated) : 0,
+        coverage: catalog.length > 0 ? round(t.recommended.size / catalog.length) : 0,
+        productsRecommended: t.recommended.size,
+      };
+    }),
+  };
+}
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import * as db from "../data/database.js";
+import { getScoringModel } from "./scoring.js";
+import type { EventMetadata, EventType, MetadataField, ValidationIssue } from "../types.js";
+
+// Registry of engagement event types. The built-in types are defined here; more are added
+// at runtime with DefineEventType and stored in the EventTypes table. Each type lists the
+// metadata fields its events may carry, and LogEngagementEvent rejects an unknown type or
+// metadata that doesn't fit it. Every type also takes a free-text "note", which is where
+// the Details text of events logged before metadata existed ended up (see migration 7).
+
+type EventTypeDefinition = Omit<EventType, "builtIn" | "weight">;
+
+const NOTE_FIELD: MetadataField = {
+  name: "note",
+  type: "string",
+  required: false,
+  description: "Free-text note",
+};
+
+const BUILT_IN_EVENT_TYPES: EventTypeDefinition[] = [
+  {
+    name: "game_attendance",
+    label: "Game attendance",
+    description: "Attended a game in person",
+    fields: [
+      { name: "opponent", type: "string", required: false, description: "The team played against" },
+      { name: "venue", type: "string", required: false, description: "Home or away game", options: ["home", "away"] },
+      { name: "gameId", type: "string", required: false, description: "Schedule ID of the game" },
+      { name: "seat", type: "string", required: false, description: "Section and seat, e.g. '112-14'" },
+    ],
+  },
+  {
+    name: "app_open",
+    label: "App open",
+    description: "Opened the team app",
+    fields: [
+      { name: "screen", type: "string", required: false, description: "What the fan looked at, e.g. 'scores'" },
+      { name: "platform", type: "string", required: false, description: "Device platform", options: ["ios", "android", "web"] },
+    ],
+  },
+  {
+    name: "social_share",
+    label: "Social share",
+    description: "Shared team content on social media",
+    fields: [
+      {
+        name: "platform",
+        type: "string",
+        required: false,
+        description: "Where it was shared",
+        options: ["instagram", "x", "facebook", "tiktok", "other"],
+      },
+      { name: "contentUrl", type: "string", required: false, description: "Link to what was shared" },
+    ],
+  },
+  {
+    name: "content_view",
+    label: "Content view",
+    description: "Watched or read team content",
+    fields: [
+      {
+        name: "contentType",
+        type: "string",
+        required: false,
+        description: "Kind of content",
+        options: ["article", "video", "interview", "highlight"],
+      },
+      { name: "title", type: "string", required: false, description: "Title of the content" },
+      { name: "player", type: "string", required: false, description: "Player the content is about" },
+    ],
+  },
+];
+
+function withScoring(definition: EventTypeDefinition, builtIn: boolean): EventType {
+  const model = getScoringModel();
+  return { ...definition, builtIn, weight: model.eventWeights[definition.name] ?? model.defaultWeight };
+}
+
+/** Built-in types first, then those added at runtime in the order they were defined */
+export function getEventTypes(): EventType[] {
+  return [
+    ...BUILT_IN_EVENT_TYPES.map((t) => withScoring(t, true)),
+    ...db.getCustomEventTypes().map((t) => withScoring(t, false)),
+  ];
+}
+
+export function getEventType(name: string): EventType | null {
+  return getEventTypes().find((t) => t.name === name) ?? null;
+}
+
+function fieldSchema(field: MetadataField): z.ZodType {
+  const schema =
+    field.type === "boolean"
+      ? z.boolean()
+      : field.type === "number"
+        ? z.number()
+        : field.type === "integer"
+          ? z.number().int()
+          : field.options
+            ? z.enum(field.options as [string, ...string[]])
+            : z.string();
+  return field.required ? schema : schema.optional();
+}
+
+/** Metadata accepted for an event type: its fields plus note, and nothing else */
+function metadataSchema(eventType: EventType) {
+  return z.strictObject(
+    Object.fromEntries([NOTE_FIELD, ...eventType.fields].map((field) => [field.name, fieldSchema(field)]))
+  );
+}
+
+/** The metadata with empty strings dropped, or the problems that stop it fitting the type */
+export function validateMetadata(
+  eventType: EventType,
+  metadata: Record<string, unknown>
+): { metadata: EventMetadata; issues: ValidationIssue[] } {
+  const present = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== "" && value != null));
+  const parsed = metadataSchema(eventType).safeParse(present);
+  if (parsed.success) return { metadata: parsed.data as EventMetadata, issues: [] };
+  const issues = parsed.error.issues.flatMap((issue) =>
+    issue.code === "unrecognized_keys"
+      ? issue.keys.map((key) => ({ field: key, message: `Not a ${eventType.name} field` }))
+      : [{ field: issue.path.join(".") || "metadata", message: issue.message }]
+  );
+  return { metadata: {}, issues };
+}
+
+/** One-line summary of an event's metadata, stored in Details: the note, then the other fields */
+export function describeMetadata(metadata: EventMetadata): string {
+  const { note, ...fields } = metadata;
+  return [
+    ...(note !== undefined ? [String(note)] : []),
+    ...Object.entries(fields).map(([name, value]) => `${name}: ${value}`),
+  ].join(" · ");
+}
+
+/** Problems with a new event type's name and fields; an empty list means it can be defined */
+export function validateEventTypeDefinition(definition: EventTypeDefinition): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!/^[a-z][a-z0-9_]{1,39}$/.test(definition.name)) {
+    issues.push({ field: "name", message: "Use 2–40 lowercase letters, digits and underscores, starting with a letter" });
+  }
+  const seen = new Set<string>();
+  for (const field of definition.fields) {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(field.name)) {
+      issues.push({ field: `fields.${field.name}`, message: "Field names are letters, digits and underscores" });
+    }
+    if (field.name === NOTE_FIELD.name) {
+      issues.push({ field: `fields.${field.name}`, message: "Every event type already has a note field" });
+    }
+    if (seen.has(field.name)) {
+      issues.push({ field: `fields.${field.name}`, message: "Duplicate field name" });
+    }
+    if (field.options && (field.type !== "string" || field.options.length === 0)) {
+      issues.push({ field: `fields.${field.name}`, message: "Options need a string field and at least one value" });
+    }
+    seen.add(field.name);
+  }
+  return issues;
+}
@@ -0,0 +1,217 @@
+import * as db from "../data/database.js";
+import type {
+  GetPromotionPerformanceResult,
+  PeriodSummary,
+  Promotion,
+  PromotionConflict,
+  PromotionSegment,
+  ValidationIssue,
+} from "../types.js";
+import { getAudience, isPromotionSegment } from "./segments.js";
+
+// Validation and overlap detection shared by CreatePromotion and UpdatePromotion.
+
+export interface PromotionDraft {
+  discountPercent: number;
+  targetSegment: string;
+  targetTeam: string | null;
+  targetInactiveDays: number | null;
+  productCategory: string;
+  startDate: string;
+  endDate: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A real YYYY-MM-DD date; shared by every tool and import that takes one */
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  // Round-trip through Date to reject impossible dates like 2025-02-30
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+export function validatePromotion(draft: PromotionDraft): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!Number.isFinite(draft.discountPercent) || draft.discountPercent < 0 || draft.discountPercent > 100) {
+    issues.push({ field: "discountPercent", message: "discountPercent must be between 0 and 100" });
+  }
+  if (draft.targetInactiveDays !== null && (!Number.isInteger(draft.targetInactiveDays) || draft.targetInactiveDays < 1)) {
+    issues.push({ field: "targetInactiveDays", message: "targetInactiveDays must be a whole number of days, at least 1" });
+  }
+  if (!isValidDate(draft.startDate)) {
+    issues.push({ field: "startDate", message: `startDate '${draft.startDate}' is not a valid YYYY-MM-DD date` });
+  }
+  if (!isValidDate(draft.endDate)) {
+    issues.push({ field: "endDate", message: `endDate '${draft.endDate}' is not a valid YYYY-MM-DD date` });
+  }
+  if (isValidDate(draft.startDate) && isValidDate(draft.endDate) && draft.endDate < draft.startDate) {
+    issues.push({ field: "endDate", message: "endDate must be on or after startDate" });
+  }
+
+  return issues;
+}
+
+// "all" overlaps every segment/category, and a promotion without a team overlaps every team
+function targetsOverlap(a: string | null, b: string | null): boolean {
+  if (a === null || b === null || a === "all" || b === "all") return true;
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Promotions that would stack with the draft: same (or "all") segment, team and category,
+ * with overlapping dates. Pass `excludeId` when checking an update against its own row.
+ */
+export function findConflictingPromotions(draft: PromotionDraft, excludeId?: string): PromotionConflict[] {
+  const today = new Date().toISOString().slice(0, 10);
+  return db
+    .getPromotionsInWindow(draft.startDate, draft.endDate, today)
+    .filter(
+      (p) =>
+        p.promotionId !== excludeId &&
+        targetsOverlap(p.targetSegment, draft.targetSegment) &&
+        targetsOverlap(p.targetTeam, draft.targetTeam) &&
+        targetsOverlap(p.productCategory, draft.productCategory)
+    )
+    .map((p) => ({
+      promotionId: p.promotionId,
+      name: p.name,
+      discountPercent: p.discountPercent,
+      targetSegment: p.targetSegment,
+      targetTeam: p.targetTeam,
+      productCategory: p.productCategory,
+      startDate: p.startDate,
+      endDate: p.endDate,
+      status: p.status,
+    }));
+}
+
+// ── Performance attribution ──
+
+const DAY_MS = 86400000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+}
+
+function upliftPercent(current: number, baseline: number): number | null {
+  if (baseline === 0) return null;
+  return Math.round(((current - baseline) / baseline) * 1000) / 10;
+}
+
+function summarizePeriod(
+  fanIds: string[],
+  startDate: string,
+  endDate: string,
+  category: string
+): { summary: PeriodSummary; daily: number[] } {
+  const { daily, buyers } = db.getPurchaseActivity(fanIds, startDate, endDate, category);
+  const byDate = new Map(daily.map((d) => [d.date, d.revenue]));
+  const length = daysBetween(startDate, endDate) + 1;
+
+  return {
+    summary: {
+      startDate,
+      endDate,
+      orders: daily.reduce((sum, d) => sum + d.orders, 0),
+      units: daily.reduce((sum, d) => sum + d.units, 0),
+      revenue: Math.round(daily.reduce((sum, d) => sum + d.revenue, 0) * 100) / 100,
+      convertedFans: buyers,
+      conversionRate: fanIds.length > 0 ? Math.round((buyers / fanIds.length) * 1000) / 10 : 0,
+    },
+    daily: Array.from({ length }, (_, i) => byDate.get(addDays(startDate, i)) ?? 0),
+  };
+}
+
+/**
+ * The last day a promotion's results count: its end date, or earlier if it was cancelled
+ * or is still running. Before its start date when it was cancelled before it began.
+ */
+export function getMeasuredEnd(promotion: Promotion, today: string): string {
+  const candidates = [promotion.endDate, today, promotion.cancelledDate].filter((d): d is string => d !== null);
+  return candidates.reduce((min, d) => (d < min ? d : min));
+}
+
+/**
+ * Attributes purchases to a promotion: the audience is the targeted segment as it stood
+ * the day the promotion started, and only purchases in the promoted category count.
+ * The baseline is the same audience over an equally long window immediately before the start.
+ */
+export function getPromotionPerformance(promotion: Promotion, today: string): GetPromotionPerformanceResult {
+  const measuredEnd = getMeasuredEnd(promotion, today);
+  const windowDays = daysBetween(promotion.startDate, measuredEnd) + 1;
+  const baselineStart = addDays(promotion.startDate, -windowDays);
+  const baselineEnd = addDays(promotion.startDate, -1);
+
+  const audience = isPromotionSegment(promotion.targetSegment)
+    ? getAudience(
+        promotion.targetSegment,
+        promotion.targetTeam ?? undefined,
+        promotion.startDate,
+        promotion.targetInactiveDays ?? undefined
+      )
+    : [];
+  const fanIds = audience.map((f) => f.fanId);
+
+  const during = summarizePeriod(fanIds, promotion.startDate, measuredEnd, promotion.productCategory);
+  const baseline = summarizePeriod(fanIds, baselineStart, baselineEnd, promotion.productCategory);
+
+  return {
+    promotionId: promotion.promotionId,
+    name: promotion.name,
+    status: promotion.status,
+    discountPercent: promotion.discountPercent,
+    targetSegment: promotion.targetSegment,
+    targetTeam: promotion.targetTeam ?? "all",
+    productCategory: promotion.productCategory,
+    audienceSize: fanIds.length,
+    windowDays,
+    promotion: during.summary,
+    baseline: baseline.summary,
+    uplift: {
+      revenuePercent: upliftPercent(during.summary.revenue, baseline.summary.revenue),
+      ordersPercent: upliftPercent(during.summary.orders, baseline.summary.orders),
+      convertedFansPercent: upliftPercent(during.summary.convertedFans, baseline.summary.convertedFans),
+    },
+    // Day-aligned daily revenue so the chart can overlay the two periods
+    dailyRevenue: during.daily.map((revenue, day) => ({
+      day: day + 1,
+      date: addDays(promotion.startDate, day),
+      promotion: revenue,
+      baseline: baseline.daily[day] ?? 0,
+    })),
+  };
+}
+
+// ── Purchase pricing ──
+
+/**
+ * The best discount a fan gets on a product on a given date: the highest-discount
+ * promotion for the product's category that was running on that date and whose audience
+ * included the fan when it started. Whether it was running depends on its window and
+ * CancelledDate, not its status today, so a backdated purchase gets the offers of its day.
+ * Using the start-date audience keeps pricing consistent with attribution.
+ */
+export function findApplicablePromotion(fanId: string, productCategory: string, date: string): Promotion | null {
+  const today = new Date().toISOString().slice(0, 10);
+  const candidates = db
+    .getPromotionsActiveOn(date, today)
+    .filter((p) => targetsOverlap(p.productCategory, productCategory) && isPromotionSegment(p.targetSegment))
+    .sort((a, b) => b.discountPercent - a.discountPercent);
+
+  for (const promotion of candidates) {
+    const audience = getAudience(
+      promotion.targetSegment as PromotionSegment,
+      promotion.targetTeam ?? undefined,
+      promotion.startDate,
+      promotion.targetInactiveDays ?? undefined
+    );
+    if (audience.some((f) => f.fanId === fanId)) return promotion;
+  }
+  return null;
+}
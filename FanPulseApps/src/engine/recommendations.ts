@@ -0,0 +1,239 @@
+import * as db from "../data/database.js";
+import type { Recommendation, RecommendationSignal, SignalScore } from "../types.js";
+import { RECOMMENDATION_SIGNALS } from "../types.js";
+import { getSegmentedFans } from "./segments.js";
+
+// Merchandise recommendations for GetMerchRecommendations. Each candidate product is scored
+// by independent signals — the original profile rules plus purchase-based signals — and the
+// relevance score is their sum, so every pick comes with a breakdown of why it was chosen.
+
+/**
+ * Maximum points per signal. Rule signals award their weight outright; purchase-based
+ * signals award a fraction of it, scaled by how strong the evidence is.
+ */
+export const SIGNAL_WEIGHTS: Record<RecommendationSignal, number> = {
+  favorite_team: 10,
+  favorite_player: 15,
+  premium: 5,
+  entry_level: 5,
+  co_purchase: 20,
+  category_affinity: 8,
+  team_popularity: 6,
+  segment_popularity: 4,
+  low_stock: -2,
+};
+
+/** Named subsets of signals, compared by the offline evaluation (cli/evaluate-recommendations.ts) */
+export const RECOMMENDATION_STRATEGIES = {
+  blended: RECOMMENDATION_SIGNALS,
+  rules: ["favorite_team", "favorite_player", "premium", "entry_level", "low_stock"],
+  co_purchase: ["co_purchase"],
+  popularity: ["team_popularity", "segment_popularity"],
+} as const satisfies Record<string, readonly RecommendationSignal[]>;
+
+export type RecommendationStrategy = keyof typeof RECOMMENDATION_STRATEGIES;
+
+export type CatalogProduct = ReturnType<typeof db.searchMerchandise>[number];
+
+/** Each fan's segment and the other fans in it, as of a date (or now) */
+export type SegmentMembership = Map<string, { segment: string; fanIds: string[] }>;
+
+export function getSegmentMembership(asOf?: string): SegmentMembership {
+  const membership: SegmentMembership = new Map();
+  for (const [segment, fans] of Object.entries(getSegmentedFans(undefined, asOf))) {
+    const fanIds = fans.map((f) => f.fanId);
+    for (const fanId of fanIds) membership.set(fanId, { segment, fanIds });
+  }
+  return membership;
+}
+
+export interface RecommendationContext {
+  fanId: string;
+  /** Only data from before this date was used (exclusive); null means all data */
+  asOf: string | null;
+  favoriteTeam: string;
+  favoritePlayers: string;
+  totalEngagements: number;
+  gamesAttended: number;
+  segment: string | null;
+  purchased: Set<string>;
+  /** Strongest "also bought" link per product, from the fan's purchases */
+  coPurchase: Map<string, { confidence: number; boughtWith: string; fans: number }>;
+  /** Share of the fan's purchased units in each category */
+  categoryShare: Map<string, { share: number; units: number }>;
+  /** Buyers per product, normalized to the most-bought product in each group */
+  teamPopularity: Map<string, number>;
+  segmentPopularity: Map<string, number>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function normalizeByMax(rows: { productId: string; buyers: number }[]): Map<string, number> {
+  const max = Math.max(0, ...rows.map((r) => r.buyers));
+  return new Map(rows.map((r) => [r.productId, max > 0 ? r.buyers / max : 0]));
+}
+
+/**
+ * Gathers everything the signals need about one fan. With `asOf`, only purchases and events
+ * before that date are used. Pass `catalog` and `segments` to reuse them across many fans.
+ * Returns null when the fan doesn't exist.
+ */
+export function loadRecommendationContext(
+  fanId: string,
+  options: { asOf?: string; catalog?: CatalogProduct[]; segments?: SegmentMembership } = {}
+): RecommendationContext | null {
+  const fan = db.getFanForRecommendation(fanId);
+  if (!fan) return null;
+  const { asOf } = options;
+
+  const { total: totalEngagements, games: gamesAttended } = db.getFanEngagementCounts(fanId, asOf);
+
+  const catalog = options.catalog ?? db.searchMerchandise({ inStockOnly: false });
+  const productNames = new Map(catalog.map((p) => [p.productId, p.name]));
+  const buyers = new Map(db.getProductBuyerCounts({ before: asOf }).map((r) => [r.productId, r.buyers]));
+  const coPurchase: RecommendationContext["coPurchase"] = new Map();
+  for (const row of db.getCoPurchaseCounts(fanId, asOf)) {
+    // Share of the product's other buyers who also bought the candidate. The +2 shrinks
+    // small samples, so one co-buyer out of one doesn't count as certainty.
+    const peers = (buyers.get(row.boughtWith) ?? 1) - 1;
+    const confidence = Math.min(1, row.fans / (peers + 2));
+    const current = coPurchase.get(row.productId);
+    if (!current || confidence > current.confidence) {
+      coPurchase.set(row.productId, {
+        confidence,
+        boughtWith: productNames.get(row.boughtWith) ?? row.boughtWith,
+        fans: row.fans,
+      });
+    }
+  }
+
+  const categoryRows = db.getCategoryPurchaseCounts(fanId, asOf);
+  const totalUnits = categoryRows.reduce((sum, r) => sum + r.units, 0);
+  const categoryShare = new Map(
+    categoryRows.map((r) => [r.category, { share: totalUnits > 0 ? r.units / totalUnits : 0, units: r.units }])
+  );
+
+  const membership = (options.segments ?? getSegmentMembership(asOf)).get(fanId);
+  const segmentFanIds = membership ? membership.fanIds.filter((id) => id !== fanId) : [];
+
+  return {
+    fanId,
+    asOf: asOf ?? null,
+    favoriteTeam: fan.FavoriteTeam,
+    favoritePlayers: fan.FavoritePlayers,
+    totalEngagements,
+    gamesAttended,
+    segment: membership?.segment ?? null,
+    purchased: db.getPurchasedProductIds(fanId, asOf),
+    coPurchase,
+    categoryShare,
+    teamPopularity: normalizeByMax(db.getProductBuyerCounts({ team: fan.FavoriteTeam, before: asOf })),
+    segmentPopularity:
+      segmentFanIds.length > 0
+        ? normalizeByMax(db.getProductBuyerCounts({ fanIds: segmentFanIds, before: asOf }))
+        : new Map(),
+  };
+}
+
+function scoreProduct(product: CatalogProduct, ctx: RecommendationContext): SignalScore[] {
+  const signals: SignalScore[] = [];
+  const add = (signal: RecommendationSignal, fraction: number, reason: string) => {
+    const score = round(SIGNAL_WEIGHTS[signal] * fraction);
+    if (score !== 0) signals.push({ signal, score, reason });
+  };
+
+  // Profile rules
+  if (product.team.toLowerCase() === ctx.favoriteTeam.toLowerCase()) {
+    add("favorite_team", 1, "Matches favorite team");
+  }
+  if (product.player && ctx.favoritePlayers.toLowerCase().includes(product.player.toLowerCase())) {
+    add("favorite_player", 1, `Features favorite player: ${product.player}`);
+  }
+  if (ctx.gamesAttended >= 3 && product.price > 50) {
+    add("premium", 1, "Premium pick for dedicated fan");
+  }
+  if (ctx.totalEngagements < 3 && product.price < 30) {
+    add("entry_level", 1, "Great entry-level item");
+  }
+
+  // Purchase-based signals
+  const co = ctx.coPurchase.get(product.productId);
+  if (co) {
+    add("co_purchase", co.confidence, `${co.fans} fan${co.fans === 1 ? "" : "s"} who bought ${co.boughtWith} also bought this`);
+  }
+  const category = ctx.categoryShare.get(product.category);
+  if (category) {
+    add("category_affinity", category.share, `${category.units} of your purchases are ${product.category} items`);
+  }
+  const teamPopularity = ctx.teamPopularity.get(product.productId);
+  if (teamPopularity) {
+    add("team_popularity", teamPopularity, `Popular with ${ctx.favoriteTeam} fans`);
+  }
+  const segmentPopularity = ctx.segmentPopularity.get(product.productId);
+  if (segmentPopularity && ctx.segment) {
+    add("segment_popularity", segmentPopularity, `Popular with fans like you (${ctx.segment.replace(/_/g, " ")})`);
+  }
+
+  // Nudge scarce items down so a fan isn't steered to something about to sell out.
+  // Only current stock is known, so replays of past dates skip this.
+  if (signals.length > 0 && ctx.asOf === null && product.stockQuantity <= product.reorderThreshold) {
+    add("low_stock", 1, `Only ${product.stockQuantity} left`);
+  }
+
+  return signals;
+}
+
+/**
+ * Ranks the candidate products the fan hadn't bought (as of the context date) using
+ * the strategy's signals. Products with no positive score are left out.
+ */
+export function rankProducts(
+  ctx: RecommendationContext,
+  candidates: CatalogProduct[],
+  options: { strategy?: RecommendationStrategy; limit?: number } = {}
+): Recommendation[] {
+  const enabled = new Set<RecommendationSignal>(RECOMMENDATION_STRATEGIES[options.strategy ?? "blended"]);
+
+  const ranked: Recommendation[] = [];
+  for (const product of candidates) {
+    if (ctx.purchased.has(product.productId)) continue;
+    const signals = scoreProduct(product, ctx)
+      .filter((s) => enabled.has(s.signal))
+      .sort((a, b) => b.score - a.score);
+    const relevanceScore = round(signals.reduce((sum, s) => sum + s.score, 0));
+    if (relevanceScore <= 0) continue;
+    ranked.push({
+      product: { ...product, inStock: product.inStock === 1 },
+      relevanceScore,
+      reason: signals.map((s) => s.reason).join("; "),
+      signals,
+    });
+  }
+
+  // Ties go to the cheaper product, then by ID, so the order is stable
+  ranked.sort(
+    (a, b) =>
+      b.relevanceScore - a.relevanceScore ||
+      a.product.price - b.product.price ||
+      a.product.productId.localeCompare(b.product.productId)
+  );
+  return options.limit === undefined ? ranked : ranked.slice(0, options.limit);
+}
+
+/**
+ * Recommendations for one fan. Returns null when the fan doesn't exist.
+ * With `asOf`, the fan is scored on data before that date and every catalog product is a
+ * candidate (past stock levels aren't recorded); otherwise only in-stock products are.
+ */
+export function recommendForFan(
+  fanId: string,
+  options: { limit?: number; asOf?: string; strategy?: RecommendationStrategy } = {}
+): Recommendation[] | null {
+  const catalog = db.searchMerchandise({ inStockOnly: false });
+  const ctx = loadRecommendationContext(fanId, { asOf: options.asOf, catalog });
+  if (!ctx) return null;
+  const candidates = options.asOf === undefined ? catalog.filter((p) => p.stockQuantity > 0) : catalog;
+  return rankProducts(ctx, candidates, { strategy: options.strategy, limit: options.limit ?? 5 });
+}
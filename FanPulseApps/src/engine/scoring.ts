@@ -0,0 +1,97 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import * as db from "../data/database.js";
+import type { EngagementLevel, ScoringModel } from "../types.js";
+
+// Single source of truth for engagement scores. Every event earns its type's weight,
+// halved for every `halfLifeDays` of age, so recent activity counts for more than
+// old activity. Weights live in scoring.config.json so they can be tuned without a code change.
+
+const DAY_MS = 86400000;
+
+const ScoringConfigSchema = z.object({
+  eventWeights: z.record(z.string(), z.number().min(0)),
+  defaultWeight: z.number().min(0),
+  halfLifeDays: z.number().positive(),
+  levelThresholds: z.object({ superfan: z.number().min(0), regular: z.number().min(0) }),
+});
+
+// Resolve scoring.config.json at the package root.
+// In dev (.ts): src/engine/ → ../..
+// Compiled (.js): dist/src/engine/ → ../../..
+function findConfigPath(): string {
+  if (process.env.FANPULSE_SCORING_CONFIG) return process.env.FANPULSE_SCORING_CONFIG;
+  const root = import.meta.filename.endsWith(".ts")
+    ? path.join(import.meta.dirname, "..", "..")
+    : path.join(import.meta.dirname, "..", "..", "..");
+  return path.join(root, "scoring.config.json");
+}
+
+/** Window scored when a caller doesn't choose one */
+export const DEFAULT_LOOKBACK_DAYS = 90;
+
+export function lookbackCutoff(lookbackDays: number = DEFAULT_LOOKBACK_DAYS): string {
+  return new Date(Date.now() - lookbackDays * DAY_MS).toISOString().slice(0, 10);
+}
+
+let config: ScoringModel | null = null;
+
+/** Loads and validates the scoring config once. An invalid file fails loudly rather than scoring silently wrong. */
+export function getScoringModel(): ScoringModel {
+  if (!config) {
+    const configPath = findConfigPath();
+    const parsed = ScoringConfigSchema.safeParse(JSON.parse(fs.readFileSync(configPath, "utf-8")));
+    if (!parsed.success) {
+      throw new Error(`Invalid scoring config ${configPath}: ${parsed.error.message}`);
+    }
+    config = parsed.data;
+  }
+  return config;
+}
+
+/** Points for `count` events of one type on one day, decayed to `asOf` */
+function eventPoints(model: ScoringModel, eventType: string, eventDate: string, count: number, asOf: string): number {
+  const weight = model.eventWeights[eventType] ?? model.defaultWeight;
+  const ageDays = Math.max(0, (Date.parse(asOf) - Date.parse(eventDate)) / DAY_MS);
+  return count * weight * Math.pow(0.5, ageDays / model.halfLifeDays);
+}
+
+export function engagementLevel(score: number, model: ScoringModel = getScoringModel()): EngagementLevel {
+  if (score >= model.levelThresholds.superfan) return "superfan";
+  if (score >= model.levelThresholds.regular) return "regular";
+  return score > 0 ? "casual" : "dormant";
+}
+
+export interface FanScore {
+  engagementScore: number;
+  engagementLevel: EngagementLevel;
+}
+
+/**
+ * Scores fans on their events since `cutoffDate`, decayed to `asOf` (default today).
+ * Fans with no events in the window are absent from the map — treat them as 0 / dormant.
+ */
+export function scoreFans(cutoffDate: string, options: { fanId?: string; asOf?: string } = {}): Map<string, FanScore> {
+  const model = getScoringModel();
+  const asOf = options.asOf ?? new Date().toISOString().slice(0, 10);
+  const totals = new Map<string, number>();
+  for (const row of db.getEngagementEventCounts(cutoffDate, options.fanId)) {
+    if (row.eventDate > asOf) continue;
+    totals.set(row.fanId, (totals.get(row.fanId) ?? 0) + eventPoints(model, row.eventType, row.eventDate, row.count, asOf));
+  }
+
+  const scores = new Map<string, FanScore>();
+  for (const [fanId, total] of totals) {
+    const engagementScore = Math.round(total * 10) / 10;
+    scores.set(fanId, { engagementScore, engagementLevel: engagementLevel(engagementScore, model) });
+  }
+  return scores;
+}
+
+export const UNSCORED: FanScore = { engagementScore: 0, engagementLevel: "dormant" };
+
+/** Score for a single fan on their events since `cutoffDate` */
+export function scoreFan(fanId: string, cutoffDate: string): FanScore {
+  return scoreFans(cutoffDate, { fanId }).get(fanId) ?? UNSCORED;
+}
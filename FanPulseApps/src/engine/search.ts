@@ -0,0 +1,81 @@
+import * as db from "../data/database.js";
+import type { SearchCorrection } from "../types.js";
+
+// Free-text product search for SearchMerchandise, over the FTS5 index from migration 6
+// (name, team, player and category). Every word must match, as a prefix — "thunder" finds
+// Thunderbolts. A word that matches nothing in the index is swapped for the indexed words
+// closest to it in spelling, so "thunderbots hoody" still finds the Thunderbolts Hoodie.
+
+/** Most replacements tried for one misspelt word */
+const MAX_REPLACEMENTS = 5;
+
+/** Edits allowed for a misspelt word. Short words get none — nearly every short word is one edit from another. */
+function maxEdits(word: string): number {
+  if (word.length <= 3) return 0;
+  return word.length <= 5 ? 1 : 2;
+}
+
+/** Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Distance from a typed word to an indexed term, where the word may be the start of the
+ * term ("hoody" is one edit from "hoodi", the start of "hoodie").
+ */
+function prefixDistance(word: string, term: string, max: number): number {
+  let best = Infinity;
+  for (let length = Math.max(1, word.length - max); length <= Math.min(term.length, word.length + max); length++) {
+    best = Math.min(best, editDistance(word, term.slice(0, length)));
+  }
+  return best;
+}
+
+/** Lowercased words of a query, split the way the index's unicode61 tokenizer splits them */
+export function tokenize(query: string): string[] {
+  return query.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export interface ProductSearch {
+  /** FTS5 MATCH expression, or null when the query has no words */
+  match: string | null;
+  /** Words that matched nothing as typed, and what was searched for instead */
+  corrections: SearchCorrection[];
+}
+
+export function buildProductSearch(query: string): ProductSearch {
+  const words = [...new Set(tokenize(query))];
+  if (words.length === 0) return { match: null, corrections: [] };
+
+  const terms = db.getMerchandiseSearchTerms();
+  const corrections: SearchCorrection[] = [];
+  const clauses = words.map((word) => {
+    if (terms.some((t) => t.term.startsWith(word))) return `"${word}"*`;
+
+    const max = maxEdits(word);
+    const replacements = terms
+      .map((t) => ({ ...t, distance: max > 0 ? prefixDistance(word, t.term, max) : Infinity }))
+      .filter((t) => t.distance <= max)
+      // Closest first; among equals, the word more products use
+      .sort((a, b) => a.distance - b.distance || b.products - a.products || a.term.localeCompare(b.term))
+      .slice(0, MAX_REPLACEMENTS)
+      .map((t) => t.term);
+    corrections.push({ term: word, replacements });
+    // With no replacement the word still has to match, so the search finds nothing
+    return replacements.length > 0 ? `(${replacements.map((r) => `"${r}"`).join(" OR ")})` : `"${word}"`;
+  });
+
+  return { match: clauses.join(" AND "), corrections };
+}
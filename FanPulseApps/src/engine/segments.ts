@@ -0,0 +1,80 @@
+import * as db from "../data/database.js";
+import type { FanSegmentEntry, PromotionSegment, SegmentName } from "../types.js";
+import { PROMOTION_SEGMENTS, SEGMENT_NAMES } from "../types.js";
+
+// Single source of truth for fan segmentation. GetFanSegments reports these groups
+// and CreatePromotion targets them, so a promotion's reach is always the size of
+// the segment the user saw.
+
+const DAY_MS = 86400000;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function classifyFan(engagementCount: number, purchaseCount: number): SegmentName {
+  if (engagementCount >= 4 && purchaseCount > 0) return "superfans";
+  if (engagementCount >= 3 && purchaseCount === 0) return "engaged_no_purchase";
+  if (purchaseCount > 0 && engagementCount < 3) return "buyers_low_engagement";
+  if (engagementCount >= 1 && engagementCount < 3) return "casual_fans";
+  return "dormant_fans";
+}
+
+/**
+ * Groups every fan (optionally filtered by team) into the five segments.
+ * Pass `asOf` to classify fans by their activity before that date, and `inactiveDays` to keep
+ * only fans who by then hadn't engaged for at least that many days, or ever.
+ */
+export function getSegmentedFans(
+  team?: string,
+  asOf?: string,
+  inactiveDays?: number
+): Record<SegmentName, FanSegmentEntry[]> {
+  const quietSince =
+    inactiveDays === undefined ? null : new Date(Date.parse(asOf ?? today()) - inactiveDays * DAY_MS).toISOString().slice(0, 10);
+  const segments = Object.fromEntries(SEGMENT_NAMES.map((name) => [name, []])) as unknown as Record<
+    SegmentName,
+    FanSegmentEntry[]
+  >;
+
+  for (const fan of db.getFanSegmentData(team, asOf)) {
+    if (quietSince !== null && fan.lastEngagement !== null && fan.lastEngagement > quietSince) continue;
+    const entry = { ...fan, lastEngagement: fan.lastEngagement ?? "never" };
+    segments[classifyFan(entry.engagementCount, entry.purchaseCount)].push(entry);
+  }
+
+  return segments;
+}
+
+/** Fans a promotion reaches: one segment or everyone, optionally narrowed to a team and to quiet fans. */
+export function getAudience(
+  targetSegment: PromotionSegment,
+  team?: string,
+  asOf?: string,
+  inactiveDays?: number
+): FanSegmentEntry[] {
+  const segments = getSegmentedFans(team, asOf, inactiveDays);
+  return targetSegment === "all" ? SEGMENT_NAMES.flatMap((name) => segments[name]) : segments[targetSegment];
+}
+
+export function isPromotionSegment(value: string): value is PromotionSegment {
+  return (PROMOTION_SEGMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Current audience size for a stored promotion. Returns null for rows whose
+ * TargetSegment predates the shared segment names and can't be resolved.
+ */
+export function getPromotionReach(promotion: {
+  targetSegment: string;
+  targetTeam: string | null;
+  targetInactiveDays: number | null;
+}): number | null {
+  if (!isPromotionSegment(promotion.targetSegment)) return null;
+  return getAudience(
+    promotion.targetSegment,
+    promotion.targetTeam ?? undefined,
+    undefined,
+    promotion.targetInactiveDays ?? undefined
+  ).length;
+}
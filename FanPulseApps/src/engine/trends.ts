@@ -0,0 +1,98 @@
+import * as db from "../data/database.js";
+import { getEventTypes } from "./event-types.js";
+import type { EngagementTrend, TrendBucket, TrendInterval } from "../types.js";
+
+// Time-bucketed engagement for GetFanEngagementMetrics. Every bucket in the window is
+// reported, including empty ones, so a chart's x-axis is continuous and deltas compare
+// adjacent periods rather than adjacent periods that happened to have events.
+
+/** Interval used when the caller doesn't pick one: daily for a month, weekly up to ~6 months, then monthly */
+export function defaultInterval(lookbackDays: number): TrendInterval {
+  if (lookbackDays <= 31) return "day";
+  if (lookbackDays <= 180) return "week";
+  return "month";
+}
+
+function toDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** First day of the bucket containing `date` — matches the SQL bucketing in database.ts */
+function bucketStart(date: string, interval: TrendInterval): string {
+  if (interval === "day") return date;
+  if (interval === "month") return `${date.slice(0, 7)}-01`;
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return toDate(d);
+}
+
+function nextBucketStart(start: string, interval: TrendInterval): string {
+  const d = new Date(`${start}T00:00:00Z`);
+  if (interval === "day") d.setUTCDate(d.getUTCDate() + 1);
+  else if (interval === "week") d.setUTCDate(d.getUTCDate() + 7);
+  else d.setUTCMonth(d.getUTCMonth() + 1);
+  return toDate(d);
+}
+
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/**
+ * Engagement counts per event type in each bucket between `startDate` and `endDate`,
+ * for one fan (`fanId`), one team's fans (`team`), or everyone.
+ * Buckets cut off by the window edges are flagged `partial`.
+ */
+export function getEngagementTrend(
+  interval: TrendInterval,
+  startDate: string,
+  endDate: string,
+  filters: { fanId?: string; team?: string } = {}
+): EngagementTrend {
+  const rows = db.getEngagementTimeSeries(interval, startDate, endDate, filters);
+
+  // Registered types first, in registry order, then anything else that was logged
+  const registered = getEventTypes().map((t) => t.name);
+  const seen = new Set(rows.map((r) => r.eventType));
+  const eventTypes = [...registered, ...[...seen].filter((t) => !registered.includes(t)).sort()];
+
+  const counts = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const bucket = counts.get(row.bucketStart) ?? {};
+    bucket[row.eventType] = row.count;
+    counts.set(row.bucketStart, bucket);
+  }
+
+  const buckets: TrendBucket[] = [];
+  for (let start = bucketStart(startDate, interval); start <= endDate; start = nextBucketStart(start, interval)) {
+    const next = nextBucketStart(start, interval);
+    const bucketCounts = Object.fromEntries(eventTypes.map((t) => [t, counts.get(start)?.[t] ?? 0]));
+    const total = Object.values(bucketCounts).reduce((sum, n) => sum + n, 0);
+    const previous = buckets[buckets.length - 1];
+    buckets.push({
+      period: interval === "month" ? start.slice(0, 7) : start,
+      startDate: start,
+      counts: bucketCounts,
+      total,
+      partial: start < startDate || next > nextBucketStart(endDate, "day"),
+      delta: previous ? total - previous.total : null,
+      deltaPercent: previous ? percentChange(total, previous.total) : null,
+    });
+  }
+
+  // A partial bucket (e.g. a week that started yesterday) would always look like a drop,
+  // so period-over-period compares the two latest complete buckets
+  const complete = buckets.filter((b) => !b.partial);
+  const current = complete[complete.length - 1];
+  const previous = complete[complete.length - 2];
+  const periodOverPeriod =
+    current && previous
+      ? [...eventTypes, "total"].map((eventType) => {
+          const now = eventType === "total" ? current.total : current.counts[eventType];
+          const before = eventType === "total" ? previous.total : previous.counts[eventType];
+          return { eventType, current: now, previous: before, delta: now - before, deltaPercent: percentChange(now, before) };
+        })
+      : [];
+
+  return { interval, eventTypes, buckets, periodOverPeriod };
+}
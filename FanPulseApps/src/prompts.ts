@@ -0,0 +1,82 @@
+// Workflow prompts: step-by-step instructions for common marketing jobs, written against the
+// server's tools. The server offers them through prompts/list and prompts/get, and the UIs'
+// quick-start buttons send the same text to the chat, so both start the same workflow.
+// Kept free of server imports so the UIs can bundle it.
+
+export const PROMPT_NAMES = ["conversion-campaign", "churn-rescue", "fan-briefing", "weekly-engagement-report"] as const;
+
+export type PromptName = (typeof PROMPT_NAMES)[number];
+
+export const PROMPT_INFO: Record<PromptName, { title: string; description: string }> = {
+  "conversion-campaign": {
+    title: "Conversion campaign",
+    description:
+      "Find engaged fans who haven't bought anything, see what they'd buy, and draft a promotion for them within a discount ceiling",
+  },
+  "churn-rescue": {
+    title: "Churn rescue",
+    description: "Find fans who have gone quiet for a number of days and draft a win-back promotion for them",
+  },
+  "fan-briefing": {
+    title: "Fan briefing",
+    description: "Brief me on one fan: engagement, purchases, what to offer them next and which promotions already reach them",
+  },
+  "weekly-engagement-report": {
+    title: "Weekly engagement report",
+    description: "Summarize the last week's engagement, segment sizes and promotion results, with one recommended action",
+  },
+};
+
+export const DEFAULT_MAX_DISCOUNT_PERCENT = 20;
+
+export const DEFAULT_DAYS_DORMANT = 60;
+
+// The most a churn-rescue offer should give away
+const MAX_RESCUE_DISCOUNT_PERCENT = 30;
+
+function teamClause(team: string | undefined, key: string): string {
+  return team ? `, ${key} "${team}"` : "";
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+}
+
+export function conversionCampaignPrompt({ team, maxDiscountPercent = DEFAULT_MAX_DISCOUNT_PERCENT }: { team?: string; maxDiscountPercent?: number }): string {
+  return `Plan a promotion that turns engaged fans who haven't bought anything yet into buyers${team ? ` (${team} fans only)` : ""}.
+
+1. Call GetFanSegments with segment "engaged_no_purchase"${teamClause(team, "team")}. Note how many fans are in the segment and who the most engaged are.
+2. Call GetMerchRecommendations for the 5 most engaged of them. Note which product categories and items come up most often.
+3. Choose one product category for the offer and a discount of at most ${maxDiscountPercent}%. Call CreatePromotion with dryRun: true, targetSegment "engaged_no_purchase"${teamClause(team, "targetTeam")}, that productCategory and discountPercent, to check its reach and whether it overlaps an existing promotion.
+4. Show me the plan: the segment size, the recommendations behind the category, the discount, the dates and the estimated reach. Don't create the promotion until I confirm; then call CreatePromotion again without dryRun.`;
+}
+
+export function churnRescuePrompt({ daysDormant = DEFAULT_DAYS_DORMANT, team }: { daysDormant?: number; team?: string }): string {
+  const cutoff = daysAgo(daysDormant);
+  return `Plan a win-back promotion for fans who haven't engaged in ${daysDormant} days or more (no activity since ${cutoff})${team ? `, ${team} fans only` : ""}.
+
+1. Call GetFanSegments with inactiveDays ${daysDormant}, sortBy "totalSpent"${teamClause(team, "team")}. Every segment then holds only fans who have been quiet that long, whatever they did before. Add up the segment counts, and note how many of them have bought before and what they spent.
+2. Call GetMerchRecommendations for the 5 highest spenders across the segments (each segment lists its biggest spenders first), or the first 5 fans if none have bought anything. Note which product categories come up most often.
+3. Choose one product category and a discount of at most ${MAX_RESCUE_DISCOUNT_PERCENT}%. Call CreatePromotion with dryRun: true, targetSegment "all", targetInactiveDays ${daysDormant}${teamClause(team, "targetTeam")}, that productCategory and discountPercent, to check its reach and whether it overlaps an existing promotion.
+4. Show me the plan: how many fans have been quiet that long, what they used to buy, the offer and its estimated reach. Don't create the promotion until I confirm; then call CreatePromotion again without dryRun.`;
+}
+
+export function fanBriefingPrompt({ fanId }: { fanId: string }): string {
+  return `Brief me on fan ${fanId} before I reach out to them.
+
+1. Call GetFanProfile with fanIdentifier "${fanId}" for their team, engagement level and score, recent activity and purchases.
+2. Call GetMerchRecommendations with fanId "${fanId}" and maxResults 3.
+3. Call GetFanSegments with team set to their favorite team and sortBy "name", and find which segment they're in, following a segment's nextCursor if needed.
+4. Call ListPromotions with status "active" and pick out the promotions that reach their segment and team.
+5. Write a short briefing: who they are, how engaged they are and how that's changing, what they buy, the best thing to offer them next and why, and whether an active promotion already covers it. Don't log events or create promotions.`;
+}
+
+export function weeklyEngagementReportPrompt({ team }: { team?: string }): string {
+  return `Write this week's engagement report${team ? ` for ${team}` : ""}.
+
+1. Call GetFanEngagementMetrics with lookbackDays 28 and interval "week"${teamClause(team, "team")}. Use the trend's periodOverPeriod to compare the last complete week with the one before, by event type, and note the 5 most engaged fans.
+2. Call GetFanSegments${team ? ` with team "${team}"` : ""} for the size of each segment.
+3. Call ListPromotions with status "active", then GetPromotionPerformance for each of them.
+4. Write the report in short sections: headline numbers, what changed since last week, top fans, segments, and how each active promotion is doing against its baseline.
+5. End with the one action you'd take next. If it's a new promotion, call GetMerchRecommendations for two or three fans in the target segment to choose its category, then check it with CreatePromotion and dryRun: true, but don't create it.`;
+}
@@ -0,0 +1,49 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import Database from "better-sqlite3";
+import type { ErrorCode, ToolErrorBody } from "../types.js";
+
+// Every tool handler is wrapped in withToolErrors, so failures reach the client as
+// isError results with a stable code (see ERROR_CODES in types.ts) — whether a handler
+// throws a ToolError on purpose or something unexpected throws underneath it.
+
+/** An expected failure, reported to the client with its code, message and details */
+export class ToolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+function toErrorBody(err: unknown): ToolErrorBody {
+  if (err instanceof ToolError) return { code: err.code, error: err.message, ...err.details };
+  // Constraint violations are requests that clash with existing data (e.g. a duplicate key)
+  if (err instanceof Database.SqliteError && err.code.startsWith("SQLITE_CONSTRAINT")) {
+    return { code: "conflict", error: err.message };
+  }
+  console.error("Tool failed:", err);
+  return { code: "internal", error: "Internal server error", cause: err instanceof Error ? err.message : String(err) };
+}
+
+export function errorResult(err: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(toErrorBody(err), null, 2) }],
+    isError: true,
+  };
+}
+
+/** Wraps a tool handler so anything it throws becomes an isError result */
+export function withToolErrors<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<CallToolResult>
+): (...args: Args) => Promise<CallToolResult> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (err) {
+      return errorResult(err);
+    }
+  };
+}
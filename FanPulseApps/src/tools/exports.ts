@@ -0,0 +1,64 @@
+import type { ExportFormat } from "../types.js";
+
+// File exports of tool results, served as fanpulse://exports/{exportId}.{format} resources.
+// Like a paging cursor, an export ID encodes the arguments that produced it instead of
+// naming a stored file: reading the resource runs the export again, so a link always
+// returns current data and any session can serve it without the server keeping files.
+
+export const EXPORT_URI_TEMPLATE = "fanpulse://exports/{exportId}.{format}";
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+};
+
+/** Rows to export, with their values picked and ordered by columns */
+export interface ExportTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/** The export's arguments; undefined ones are left out, so equal arguments give the same ID */
+export function encodeExportId(args: Record<string, unknown>): string {
+  const entries = Object.keys(args)
+    .sort()
+    .filter((key) => args[key] !== undefined)
+    .map((key) => [key, args[key]]);
+  return Buffer.from(JSON.stringify(Object.fromEntries(entries))).toString("base64url");
+}
+
+/** The arguments an export ID encodes, or null if it isn't one */
+export function decodeExportId(exportId: string): Record<string, unknown> | null {
+  try {
+    const args: unknown = JSON.parse(Buffer.from(exportId, "base64url").toString("utf-8"));
+    return args && typeof args === "object" && !Array.isArray(args) ? (args as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function exportUri(exportId: string, format: ExportFormat): string {
+  return `fanpulse://exports/${exportId}.${format}`;
+}
+
+/**
+ * RFC 4180 cell. Text starting with =, +, - or @ gets a leading ' so spreadsheets
+ * show it rather than evaluating it as a formula.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderExport(table: ExportTable, format: ExportFormat): string {
+  if (format === "ndjson") {
+    return table.rows
+      .map((row) => JSON.stringify(Object.fromEntries(table.columns.map((column) => [column, row[column] ?? null]))) + "\n")
+      .join("");
+  }
+  return [table.columns, ...table.rows.map((row) => table.columns.map((column) => row[column]))]
+    .map((cells) => cells.map(csvCell).join(",") + "\r\n")
+    .join("");
+}
@@ -1,5 +1,16 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type GetPromptResult,
+  type ReadResourceResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
 import {
   RESOURCE_MIME_TYPE,
   registerAppResource,
@@ -9,8 +20,142 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { z } from "zod";
 import * as db from "../data/database.js";
-import type { SegmentName } from "../types.js";
-import { SEGMENT_DESCRIPTIONS } from "../types.js";
+import {
+  findApplicablePromotion,
+  findConflictingPromotions,
+  getMeasuredEnd,
+  getPromotionPerformance,
+  isValidDate,
+  validatePromotion,
+} from "../engine/promotions.js";
+import {
+  DEFAULT_LOOKBACK_DAYS,
+  getScoringModel,
+  lookbackCutoff,
+  scoreFan,
+  scoreFans,
+  UNSCORED,
+} from "../engine/scoring.js";
+import {
+  describeMetadata,
+  getEventType,
+  getEventTypes,
+  validateEventTypeDefinition,
+  validateMetadata,
+} from "../engine/event-types.js";
+import { currentVersion, onChange, recordChange, waitForChange, type Change } from "../data/changes.js";
+import {
+  churnRescuePrompt,
+  conversionCampaignPrompt,
+  DEFAULT_DAYS_DORMANT,
+  DEFAULT_MAX_DISCOUNT_PERCENT,
+  fanBriefingPrompt,
+  PROMPT_INFO,
+  weeklyEngagementReportPrompt,
+} from "../prompts.js";
+import { importEngagementEvents, ImportFormatError } from "../data/importer.js";
+import { recommendForFan, SIGNAL_WEIGHTS } from "../engine/recommendations.js";
+import { buildProductSearch, editDistance } from "../engine/search.js";
+import { getAudience, getPromotionReach, getSegmentedFans } from "../engine/segments.js";
+import { defaultInterval, getEngagementTrend } from "../engine/trends.js";
+import { ToolError, withToolErrors } from "./errors.js";
+import {
+  decodeExportId,
+  encodeExportId,
+  EXPORT_MIME_TYPES,
+  EXPORT_URI_TEMPLATE,
+  exportUri,
+  renderExport,
+  type ExportTable,
+} from "./exports.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  nextCursor,
+  pageWindow,
+  paginate,
+  PageInputShape,
+} from "./pagination.js";
+import {
+  AdjustInventoryOutput,
+  CancelPromotionOutput,
+  CHANGE_TABLES,
+  CreateFanOutput,
+  CreatePromotionOutput,
+  DefineEventTypeOutput,
+  DELETE_FAN_MODES,
+  DeleteFanOutput,
+  ENGAGEMENT_LEVELS,
+  EngagementMetricSchema,
+  EXPORT_FORMATS,
+  EXPORT_SOURCES,
+  ExportDataOutput,
+  ExportFanDataOutput,
+  FAN_DIRECTORY_SORTS,
+  FAN_METRIC_SORTS,
+  FanSegmentEntrySchema,
+  GetFanEngagementMetricsOutput,
+  GetFanProfileOutput,
+  GetFanSegmentsOutput,
+  GetLowStockReportOutput,
+  GetMerchRecommendationsOutput,
+  GetPromotionOutput,
+  GetPromotionPerformanceOutput,
+  IMPORT_FORMATS,
+  ImportEngagementEventsOutput,
+  ListPromotionsOutput,
+  ListEventTypesOutput,
+  LogEngagementEventOutput,
+  MERCH_SORTS,
+  METADATA_FIELD_TYPES,
+  PROMOTION_SEGMENTS,
+  ProductResultSchema,
+  PROMOTION_STATUSES,
+  RecordPurchaseOutput,
+  SEGMENT_DESCRIPTIONS,
+  SEGMENT_FAN_SORTS,
+  SEGMENT_NAMES,
+  SearchFansOutput,
+  SearchMerchandiseOutput,
+  TEAMS,
+  TREND_INTERVALS,
+  UpdateFanOutput,
+  UpdatePromotionOutput,
+  WatchChangesOutput,
+  type AdjustInventoryResult,
+  type CancelPromotionResult,
+  type ChangeTable,
+  type CreateFanResult,
+  type CreatePromotionResult,
+  type DefineEventTypeResult,
+  type DeleteFanResult,
+  type ExportDataResult,
+  type ExportFormat,
+  type ExportSource,
+  type ExportFanDataResult,
+  type FanMetricSort,
+  type GetFanEngagementMetricsResult,
+  type GetFanProfileResult,
+  type GetFanSegmentsResult,
+  type GetLowStockReportResult,
+  type GetMerchRecommendationsResult,
+  type GetPromotionResult,
+  type ImportEngagementEventsResult,
+  type ListEventTypesResult,
+  type ListPromotionsResult,
+  type LogEngagementEventResult,
+  type MerchSort,
+  type ProductResult,
+  type RecordPurchaseResult,
+  type SearchFansResult,
+  type SearchMerchandiseResult,
+  type SegmentGroup,
+  type SegmentName,
+  type UpdateFanResult,
+  type UpdatePromotionResult,
+  type WatchChangesResult,
+} from "../types.js";
 
 // Resolve dist directory for built HTML files.
 // In dev (.ts): src/tools/ → ../../dist
@@ -23,7 +168,55 @@ async function loadUiHtml(filename: string): Promise<string> {
   return fs.readFile(path.join(DIST_DIR, filename), "utf-8");
 }
 
-// ── GetFanProfile ──
+/** The ui:// pages registered on each server, listed first by resources/list */
+const uiResources = new WeakMap<McpServer, Resource[]>();
+
+/** Registers a tool's UI page as a ui:// resource, read from its built HTML file */
+function registerUiResource(server: McpServer, resourceUri: string, description: string, htmlFile: string) {
+  registerAppResource(
+    server,
+    resourceUri,
+    resourceUri,
+    { mimeType: RESOURCE_MIME_TYPE, description },
+    async (): Promise<ReadResourceResult> => ({
+      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml(htmlFile) }],
+    })
+  );
+  const registered = uiResources.get(server) ?? [];
+  registered.push({ uri: resourceUri, name: resourceUri, description, mimeType: RESOURCE_MIME_TYPE });
+  uiResources.set(server, registered);
+}
+
+// Every tool declares an outputSchema (from types.ts) and returns its result as
+// structuredContent, with the same JSON as text for clients that only read content.
+function jsonResult(result: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    structuredContent: result,
+  };
+}
+
+// Fan fields holding dates; "none" and "never" stand for a missing one
+const DATE_FIELDS = new Set(["lastEngagement", "joinDate"]);
+
+/**
+ * Orders fans for paging: numbers highest first, dates most recent first (missing ones
+ * last), other text A–Z. Ties go by fan ID so pages never overlap.
+ */
+function sortFans<T extends { fanId: string }>(fans: T[], sortBy: keyof T & string): T[] {
+  const date = (value: unknown) => (/^\d{4}-/.test(String(value)) ? String(value) : "");
+  const primary = (a: T, b: T): number => {
+    const x = a[sortBy];
+    const y = b[sortBy];
+    if (typeof x === "number" && typeof y === "number") return y - x;
+    if (DATE_FIELDS.has(sortBy)) return date(y).localeCompare(date(x));
+    return String(x ?? "").localeCompare(String(y ?? ""));
+  };
+  return [...fans].sort((a, b) => primary(a, b) || a.fanId.localeCompare(b.fanId));
+}
+
+
+// ── GetFanProfile + Fan Profile UI ──
 
 const GetFanProfileInput = z.object({
   fanIdentifier: z
@@ -31,31 +224,108 @@ const GetFanProfileInput = z.object({
     .describe("The fan ID (e.g. 'fan-001') or email address to look up"),
 });
 
+/** A fan's profile by ID or email, as GetFanProfile returns it, or null if there's no such fan */
+function getFanProfile(fanIdentifier: string): GetFanProfileResult | null {
+  const fan = db.getFanByIdOrEmail(fanIdentifier);
+  if (!fan) return null;
+  const cutoffDate = lookbackCutoff();
+  return {
+    ...fan,
+    recentEngagements: db.getRecentEngagements(fan.fanId, 10),
+    purchaseHistory: db.getPurchaseHistory(fan.fanId),
+    engagementSummary: { ...db.getEngagementSummary(fan.fanId, cutoffDate), ...scoreFan(fan.fanId, cutoffDate) },
+    lookbackDays: DEFAULT_LOOKBACK_DAYS,
+    scoring: getScoringModel(),
+  };
+}
+
 export function registerGetFanProfile(server: McpServer) {
-  server.tool(
+  const resourceUri = "ui://fanpulse/fan-profile.html";
+
+  registerAppTool(
+    server,
     "GetFanProfile",
-    "Get a fan's profile including their favorite team, players, attendance history, and purchase history.",
-    GetFanProfileInput.shape,
-    async ({ fanIdentifier }): Promise<CallToolResult> => {
-      const fan = db.getFanByIdOrEmail(fanIdentifier);
-      if (!fan) {
-        return {
-          content: [
-            { type: "text", text: JSON.stringify({ error: "Fan not found", identifier: fanIdentifier }) },
-          ],
-        };
+    {
+      title: "Get Fan Profile",
+      description: "Get a fan's profile including their favorite team, players, attendance history, and purchase history.",
+      inputSchema: GetFanProfileInput.shape,
+      outputSchema: GetFanProfileOutput.shape,
+      _meta: { ui: { resourceUri } },
+    },
+    withToolErrors(async ({ fanIdentifier }): Promise<CallToolResult> => {
+      const profile = getFanProfile(fanIdentifier);
+      if (!profile) {
+        throw new ToolError("not_found", "Fan not found", { identifier: fanIdentifier });
       }
-      const profile = {
-        ...fan,
-        recentEngagements: db.getRecentEngagements(fan.fanId, 10),
-        purchaseHistory: db.getPurchaseHistory(fan.fanId),
-        engagementSummary: db.getEngagementSummary(fan.fanId),
-      };
-      return {
-        content: [{ type: "text", text: JSON.stringify(profile, null, 2) }],
+      return jsonResult(profile);
+    })
+  );
+
+  registerUiResource(server, resourceUri, "Fan Profile", "src/ui/fan-profile/mcp-app.html");
+}
+
+// ── SearchFans + Fan Browser UI ──
+
+const SearchFansInput = z.object({
+  name: z.string().optional().describe("Part of the fan's name (e.g. 'garcia')"),
+  city: z.string().optional().describe("City, matched exactly (e.g. 'Denver')"),
+  state: z.string().optional().describe("State code, matched exactly (e.g. 'CO')"),
+  team: z.string().optional().describe("Favorite team (e.g. 'Summit FC')"),
+  player: z.string().optional().describe("A favorite player (e.g. 'Jake Storm')"),
+  joinedFrom: z.string().optional().describe("Only fans who joined on or after this date (YYYY-MM-DD)"),
+  joinedTo: z.string().optional().describe("Only fans who joined on or before this date (YYYY-MM-DD)"),
+  engagementLevel: z
+    .enum(ENGAGEMENT_LEVELS)
+    .optional()
+    .describe("Only fans at this engagement level over the last 90 days: superfan, regular, casual or dormant"),
+  sortBy: z
+    .enum(FAN_DIRECTORY_SORTS)
+    .optional()
+    .describe("Order: name (default, A–Z), engagementScore (highest first), joinDate or lastEngagement (most recent first), favoriteTeam, or city"),
+  ...PageInputShape,
+});
+
+export function registerSearchFans(server: McpServer) {
+  const resourceUri = "ui://fanpulse/fan-browser.html";
+
+  registerAppTool(
+    server,
+    "SearchFans",
+    {
+      title: "Search Fans",
+      description:
+        "Find fans by name, city/state, favorite team or player, join-date range and engagement level — e.g. fans in Denver who like Summit FC and joined this year. Returns contact details, join date, last engagement and engagement score for each fan. Results are paged: pass nextCursor back as cursor for more. Use GetFanProfile for one fan's full history.",
+      inputSchema: SearchFansInput.shape,
+      outputSchema: SearchFansOutput.shape,
+      _meta: { ui: { resourceUri } },
+    },
+    withToolErrors(async ({ engagementLevel, sortBy = "name", limit, cursor, ...filters }): Promise<CallToolResult> => {
+      if (filters.joinedFrom && filters.joinedTo && filters.joinedFrom > filters.joinedTo) {
+        throw new ToolError("validation", "joinedFrom is after joinedTo", {
+          joinedFrom: filters.joinedFrom,
+          joinedTo: filters.joinedTo,
+        });
+      }
+      // Levels come from the score, so that filter runs after scoring rather than in SQL
+      const scores = scoreFans(lookbackCutoff());
+      const fans = db
+        .searchFans(filters)
+        .map((f) => ({ ...f, lastEngagement: f.lastEngagement ?? "never", ...(scores.get(f.fanId) ?? UNSCORED) }))
+        .filter((f) => engagementLevel === undefined || f.engagementLevel === engagementLevel);
+      const page = paginate(sortFans(fans, sortBy), { limit, cursor, query: { ...filters, engagementLevel, sortBy } });
+
+      const result: SearchFansResult = {
+        sortBy,
+        totalCount: fans.length,
+        fans: page.items,
+        nextCursor: page.nextCursor,
+        lookbackDays: DEFAULT_LOOKBACK_DAYS,
       };
-    }
+      return jsonResult(result);
+    })
   );
+
+  registerUiResource(server, resourceUri, "Fan Browser", "src/ui/fan-browser/mcp-app.html");
 }
 
 // ── LogEngagementEvent ──
@@ -64,8 +334,12 @@ const LogEngagementInput = z.object({
   fanId: z.string().describe("The fan ID (e.g. 'fan-001')"),
   eventType: z
     .string()
-    .describe("Type of engagement: game_attendance, app_open, social_share, content_view"),
-  details: z.string().describe("Additional details about the event"),
+    .describe("Type of engagement: game_attendance, app_open, social_share, content_view, or any type added with DefineEventType (see ListEventTypes)"),
+  metadata: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe("Structured event data, using the fields ListEventTypes lists for the type (e.g. { \"opponent\": \"River Wolves\", \"venue\": \"home\" } for game_attendance)"),
+  details: z.string().optional().describe("Free-text note about the event; stored as the note metadata field"),
   eventDate: z
     .string()
     .optional()
@@ -73,25 +347,365 @@ const LogEngagementInput = z.object({
 });
 
 export function registerLogEngagementEvent(server: McpServer) {
-  server.tool(
+  server.registerTool(
     "LogEngagementEvent",
-    "Record a fan engagement event such as game attendance, app usage, social media interaction, or content viewing.",
-    LogEngagementInput.shape,
-    async ({ fanId, eventType, details, eventDate }): Promise<CallToolResult> => {
+    {
+      title: "Log Engagement Event",
+      description:
+        "Record a fan engagement event such as game attendance, app usage, social media interaction, or content viewing. The event type must be registered, and its metadata must fit the type's fields.",
+      inputSchema: LogEngagementInput.shape,
+      outputSchema: LogEngagementEventOutput.shape,
+    },
+    withToolErrors(async ({ fanId, eventType: typeName, metadata: metadataParam, details, eventDate }): Promise<CallToolResult> => {
+      const eventType = getEventType(typeName);
+      if (!eventType) {
+        const knownTypes = getEventTypes().map((t) => t.name);
+        const closest = knownTypes
+          .map((name) => ({ name, distance: editDistance(typeName.toLowerCase(), name) }))
+          .sort((a, b) => a.distance - b.distance)[0];
+        // Close enough to be a typo: within a third of the name's length
+        const suggestion = closest && closest.distance <= Math.ceil(closest.name.length / 3) ? closest.name : null;
+        const error = `Unknown event type "${typeName}"${suggestion ? ` — did you mean "${suggestion}"?` : ""}`;
+        throw new ToolError("validation", error, { eventType: typeName, knownTypes });
+      }
+      if (eventDate !== undefined && !isValidDate(eventDate)) {
+        throw new ToolError("validation", `eventDate '${eventDate}' is not a valid YYYY-MM-DD date`, { eventDate });
+      }
       if (!db.fanExists(fanId)) {
-        return {
-          content: [{ type: "text", text: JSON.stringify({ error: "Fan not found", fanId }) }],
-        };
+        throw new ToolError("not_found", "Fan not found", { fanId });
+      }
+      const { metadata, issues } = validateMetadata(eventType, { note: details, ...metadataParam });
+      if (issues.length > 0) {
+        const problems = issues.map((i) => `${i.field} (${i.message})`).join("; ");
+        throw new ToolError("validation", `Invalid metadata for ${eventType.name}: ${problems}`, {
+          eventType: eventType.name,
+          validationErrors: issues,
+        });
       }
+
       const eventId = `evt-${crypto.randomUUID().replace(/-/g, "").slice(0, 7)}`;
       const date = eventDate ?? new Date().toISOString().slice(0, 10);
-      db.insertEngagementEvent({ eventId, fanId, eventType, eventDate: date, details });
-      return {
-        content: [
-          { type: "text", text: JSON.stringify({ success: true, eventId, fanId, eventType, eventDate: date, details }) },
-        ],
+      const event = { eventId, fanId, eventType: eventType.name, eventDate: date, details: describeMetadata(metadata), metadata };
+      db.insertEngagementEvent(event);
+      recordChange({ tables: ["EngagementEvents"], fanIds: [fanId] });
+      const result: LogEngagementEventResult = { success: true, ...event };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── ListEventTypes ──
+
+export function registerListEventTypes(server: McpServer) {
+  server.registerTool(
+    "ListEventTypes",
+    {
+      title: "List Event Types",
+      description:
+        "List the engagement event types LogEngagementEvent accepts — built-in and added with DefineEventType — with each type's metadata fields and scoring weight.",
+      outputSchema: ListEventTypesOutput.shape,
+    },
+    withToolErrors(async (): Promise<CallToolResult> => {
+      const result: ListEventTypesResult = { eventTypes: getEventTypes() };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── DefineEventType ──
+
+const DefineEventTypeInput = z.object({
+  name: z.string().describe("Type name in snake_case, e.g. 'ticket_purchase' or 'stream_watch'"),
+  label: z.string().optional().describe("Display name (defaults to the name with spaces)"),
+  description: z.string().describe("What the event means, e.g. 'Bought tickets to a game'"),
+  fields: z
+    .array(
+      z.object({
+        name: z.string().describe("Field name, e.g. 'gameId'"),
+        type: z.enum(METADATA_FIELD_TYPES).describe("string, number, integer or boolean"),
+        required: z.boolean().optional().describe("Whether every event must set it (default: false)"),
+        description: z.string().optional().describe("What the field holds"),
+        options: z.array(z.string()).optional().describe("For string fields, the only values allowed"),
+      })
+    )
+    .optional()
+    .describe("Metadata fields for events of this type. A free-text note field is always included."),
+});
+
+export function registerDefineEventType(server: McpServer) {
+  server.registerTool(
+    "DefineEventType",
+    {
+      title: "Define Event Type",
+      description:
+        "Add a new engagement event type, such as ticket_purchase or stream_watch, with the metadata fields its events carry. Once defined it can be logged, and it appears in profiles, metrics and trends. New types score the config's default weight unless scoring.config.json lists them.",
+      inputSchema: DefineEventTypeInput.shape,
+      outputSchema: DefineEventTypeOutput.shape,
+    },
+    withToolErrors(async ({ name, label, description, fields = [] }): Promise<CallToolResult> => {
+      const definition = {
+        name: name.trim(),
+        label: label?.trim() || name.trim().replace(/_/g, " "),
+        description: description.trim(),
+        fields: fields.map((f) => ({
+          name: f.name.trim(),
+          type: f.type,
+          required: f.required ?? false,
+          description: f.description?.trim() ?? "",
+          ...(f.options ? { options: f.options } : {}),
+        })),
       };
-    }
+      const validationErrors = validateEventTypeDefinition(definition);
+      if (validationErrors.length > 0) {
+        throw new ToolError("validation", "Invalid event type", { name, validationErrors });
+      }
+      if (getEventType(definition.name)) {
+        throw new ToolError("conflict", "Event type already exists", { name: definition.name });
+      }
+
+      db.insertEventType(definition);
+      recordChange({ tables: ["EventTypes"] });
+      const result: DefineEventTypeResult = { success: true, ...getEventType(definition.name)! };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── ImportEngagementEvents ──
+
+/** Failed rows listed in a result; the rest are counted in errorsOmitted */
+const MAX_REPORTED_IMPORT_ERRORS = 100;
+
+const ImportEngagementEventsInput = z.object({
+  format: z.enum(IMPORT_FORMATS).describe("csv (with a header row) or ndjson (one JSON object per line)"),
+  data: z
+    .string()
+    .describe(
+      "The file contents. Each row needs sourceId (its ID in the source system), fanId, eventType and eventDate (YYYY-MM-DD), and may have details (a note) and metadata — a JSON object, or in CSV any other columns as metadata fields. NDJSON rows with any other key are rejected."
+    ),
+  dryRun: z.boolean().optional().describe("Validate and count the rows without importing them (default: false)"),
+});
+
+export function registerImportEngagementEvents(server: McpServer) {
+  server.registerTool(
+    "ImportEngagementEvents",
+    {
+      title: "Import Engagement Events",
+      description:
+        "Bulk import engagement events from CSV or NDJSON, e.g. a ticketing system's daily export. Each row is checked against the fans and event types; bad rows are skipped and reported by line, and rows whose sourceId was already imported are skipped as duplicates, so a file can safely be imported again.",
+      inputSchema: ImportEngagementEventsInput.shape,
+      outputSchema: ImportEngagementEventsOutput.shape,
+    },
+    withToolErrors(async ({ format, data, dryRun }): Promise<CallToolResult> => {
+      let report;
+      try {
+        report = importEngagementEvents(data, { format, dryRun });
+      } catch (err) {
+        if (err instanceof ImportFormatError) throw new ToolError("validation", err.message, { format });
+        throw err;
+      }
+      if (report.imported > 0 && !report.dryRun) recordChange({ tables: ["EngagementEvents"] });
+      const result: ImportEngagementEventsResult = {
+        ...report,
+        errors: report.errors.slice(0, MAX_REPORTED_IMPORT_ERRORS),
+        errorsOmitted: Math.max(0, report.errors.length - MAX_REPORTED_IMPORT_ERRORS),
+      };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── CreateFan ──
+
+// Deliberately loose — one @, no spaces, a dot in the domain
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Rejects an invalid email, or one another fan already uses */
+function checkEmail(email: string, fanId?: string) {
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new ToolError("validation", "Invalid email address", { email });
+  }
+  const existingFanId = db.findFanIdByEmail(email, fanId);
+  if (existingFanId) {
+    throw new ToolError("conflict", "Email is already used by another fan", { email, existingFanId });
+  }
+}
+
+const CreateFanInput = z.object({
+  firstName: z.string().describe("The fan's first name"),
+  lastName: z.string().describe("The fan's last name"),
+  email: z.string().describe("Email address; must not belong to another fan"),
+  favoriteTeam: z.string().describe("Favorite team (e.g. 'Thunderbolts', 'River Wolves', 'Summit FC')"),
+  favoritePlayers: z.string().optional().describe("Comma-separated favorite players"),
+  city: z.string().optional().describe("City"),
+  state: z.string().optional().describe("State, e.g. 'WA'"),
+  joinDate: z.string().optional().describe("Date the fan joined in YYYY-MM-DD format (defaults to today)"),
+});
+
+export function registerCreateFan(server: McpServer) {
+  server.registerTool(
+    "CreateFan",
+    {
+      title: "Create Fan",
+      description: "Add a new fan. The email must be valid and not already used by another fan.",
+      inputSchema: CreateFanInput.shape,
+      outputSchema: CreateFanOutput.shape,
+    },
+    withToolErrors(async (input): Promise<CallToolResult> => {
+      const fan = {
+        fanId: `fan-${crypto.randomUUID().replace(/-/g, "").slice(0, 8)}`,
+        firstName: input.firstName.trim(),
+        lastName: input.lastName.trim(),
+        email: input.email.trim(),
+        favoriteTeam: input.favoriteTeam.trim(),
+        favoritePlayers: input.favoritePlayers?.trim() ?? "",
+        joinDate: input.joinDate ?? new Date().toISOString().slice(0, 10),
+        city: input.city?.trim() ?? "",
+        state: input.state?.trim() ?? "",
+      };
+      if (!fan.firstName || !fan.lastName) {
+        throw new ToolError("validation", "First and last name are required");
+      }
+      if (!isValidDate(fan.joinDate)) {
+        throw new ToolError("validation", `joinDate '${fan.joinDate}' is not a valid YYYY-MM-DD date`, { joinDate: fan.joinDate });
+      }
+      checkEmail(fan.email);
+
+      db.insertFan(fan);
+      recordChange({ tables: ["Fans"], fanIds: [fan.fanId], listChanged: true });
+      const result: CreateFanResult = { success: true, ...fan };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── UpdateFan ──
+
+const UpdateFanInput = z.object({
+  fanId: z.string().describe("The fan ID to update"),
+  firstName: z.string().optional().describe("New first name"),
+  lastName: z.string().optional().describe("New last name"),
+  email: z.string().optional().describe("New email address; must not belong to another fan"),
+  favoriteTeam: z.string().optional().describe("New favorite team"),
+  favoritePlayers: z.string().optional().describe("New comma-separated favorite players (replaces the current list)"),
+  city: z.string().optional().describe("New city"),
+  state: z.string().optional().describe("New state"),
+});
+
+export function registerUpdateFan(server: McpServer) {
+  server.registerTool(
+    "UpdateFan",
+    {
+      title: "Update Fan",
+      description:
+        "Edit a fan's details — name, email, favorite team and players, or city and state. Only the fields provided are changed.",
+      inputSchema: UpdateFanInput.shape,
+      outputSchema: UpdateFanOutput.shape,
+    },
+    withToolErrors(async ({ fanId, ...input }): Promise<CallToolResult> => {
+      const existing = db.getFanByIdOrEmail(fanId);
+      if (!existing || existing.fanId !== fanId) {
+        throw new ToolError("not_found", "Fan not found", { fanId });
+      }
+      const changes = Object.fromEntries(
+        Object.entries(input).flatMap(([field, value]) => (value === undefined ? [] : [[field, value.trim()]]))
+      ) as Partial<Record<keyof typeof input, string>>;
+      if (Object.keys(changes).length === 0) {
+        throw new ToolError("validation", "Provide at least one field to update", { fanId });
+      }
+      if (changes.firstName === "" || changes.lastName === "") {
+        throw new ToolError("validation", "First and last name can't be empty", { fanId });
+      }
+
+      const fields = {
+        firstName: changes.firstName ?? existing.firstName,
+        lastName: changes.lastName ?? existing.lastName,
+        email: changes.email ?? existing.email,
+        favoriteTeam: changes.favoriteTeam ?? existing.favoriteTeam,
+        favoritePlayers: changes.favoritePlayers ?? existing.favoritePlayers,
+        city: changes.city ?? existing.city,
+        state: changes.state ?? existing.state,
+      };
+      if (changes.email !== undefined) checkEmail(fields.email, fanId);
+
+      const updatedFields = (Object.keys(fields) as (keyof typeof fields)[]).filter((f) => fields[f] !== existing[f]);
+      if (updatedFields.length > 0) {
+        db.updateFan(fanId, fields);
+        // The name is the fan's resources/list entry
+        recordChange({ tables: ["Fans"], fanIds: [fanId], listChanged: updatedFields.some((f) => f === "firstName" || f === "lastName") });
+      }
+      const result: UpdateFanResult = { success: true, ...existing, ...fields, updatedFields };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── ExportFanData ──
+
+const ExportFanDataInput = z.object({
+  fanId: z.string().describe("The fan ID to export"),
+});
+
+export function registerExportFanData(server: McpServer) {
+  server.registerTool(
+    "ExportFanData",
+    {
+      title: "Export Fan Data",
+      description:
+        "Export everything stored about a fan — their profile, every engagement event and every purchase — as JSON, e.g. to answer a data access request.",
+      inputSchema: ExportFanDataInput.shape,
+      outputSchema: ExportFanDataOutput.shape,
+    },
+    withToolErrors(async ({ fanId }): Promise<CallToolResult> => {
+      const fan = db.getFanByIdOrEmail(fanId);
+      if (!fan || fan.fanId !== fanId) {
+        throw new ToolError("not_found", "Fan not found", { fanId });
+      }
+      const result: ExportFanDataResult = {
+        exportedAt: new Date().toISOString(),
+        fan,
+        engagementEvents: db.getFanEngagementEvents(fanId),
+        purchases: db.getFanPurchases(fanId),
+      };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── DeleteFan ──
+
+const DeleteFanInput = z.object({
+  fanId: z.string().describe("The fan ID to delete"),
+  mode: z
+    .enum(DELETE_FAN_MODES)
+    .optional()
+    .describe(
+      "delete (default) removes the fan, their engagement events and purchases. anonymize keeps the history for reporting but clears their name, email, location, favorite players and event details."
+    ),
+});
+
+export function registerDeleteFan(server: McpServer) {
+  server.registerTool(
+    "DeleteFan",
+    {
+      title: "Delete Fan",
+      description:
+        "Permanently delete a fan and their engagement events and purchases, or anonymize them so their history still counts in reports. Either way it can't be undone.",
+      inputSchema: DeleteFanInput.shape,
+      outputSchema: DeleteFanOutput.shape,
+      annotations: { destructiveHint: true, idempotentHint: true },
+    },
+    withToolErrors(async ({ fanId, mode: modeParam }): Promise<CallToolResult> => {
+      if (!db.fanExists(fanId)) {
+        throw new ToolError("not_found", "Fan not found", { fanId });
+      }
+      const mode = modeParam ?? "delete";
+      // All or nothing, so a failure never leaves history behind for a deleted fan
+      const counts = db.runInTransaction(() => (mode === "delete" ? db.deleteFan(fanId) : db.anonymizeFan(fanId)));
+      recordChange({ tables: ["Fans", "EngagementEvents", "Purchases"], fanIds: [fanId], listChanged: true });
+      const result: DeleteFanResult = { success: true, fanId, mode, ...counts };
+      return jsonResult(result);
+    })
   );
 }
 
@@ -103,8 +717,35 @@ const GetMetricsInput = z.object({
     .optional()
     .describe("Optional fan ID to get metrics for a specific fan. If omitted, returns top engaged fans."),
   lookbackDays: z.number().optional().describe("Number of days to look back for engagement data. Use this to override the default 90-day window, e.g. 365 for a full year."),
+  team: z
+    .string()
+    .optional()
+    .describe("Optional team to limit the fan list and trend to (e.g. 'Thunderbolts'). Ignored when fanId is given."),
+  interval: z
+    .enum(TREND_INTERVALS)
+    .optional()
+    .describe("Time bucket for the engagement trend: day, week, or month (default: chosen from lookbackDays)"),
+  sortBy: z
+    .enum(FAN_METRIC_SORTS)
+    .optional()
+    .describe("Order of the fan list: engagementScore (default), totalEvents, gamesAttended, lastEngagement (most recent first), or name"),
+  ...PageInputShape,
 });
 
+/** Every fan's metrics since cutoffDate, optionally for one team, in sortBy order */
+function rankFanMetrics(cutoffDate: string, team: string | undefined, sortBy: FanMetricSort) {
+  // Scores need every fan's events anyway, so the list is sorted in memory and sliced
+  const scores = scoreFans(cutoffDate);
+  return sortFans(
+    db.getAllFanMetrics(cutoffDate, team).map((f) => ({
+      ...f,
+      lastEngagement: f.lastEngagement ?? "none",
+      ...(scores.get(f.fanId) ?? UNSCORED),
+    })),
+    sortBy
+  );
+}
+
 export function registerGetFanEngagementMetrics(server: McpServer) {
   const resourceUri = "ui://fanpulse/engagement-chart.html";
 
@@ -114,76 +755,114 @@ export function registerGetFanEngagementMetrics(server: McpServer) {
     {
       title: "Get Fan Engagement Metrics",
       description:
-        "Get engagement metrics and scores for a specific fan or all fans. Returns engagement frequency, recency, and an overall score.",
+        "Get engagement metrics and scores for a specific fan, one team's fans, or all fans. Returns engagement frequency, recency, and an overall score — weighted points per event type, decayed by age — with the weights used, plus a day/week/month trend per event type with period-over-period deltas. The fan list is paged: pass nextCursor back as cursor for more.",
       inputSchema: GetMetricsInput.shape,
+      outputSchema: GetFanEngagementMetricsOutput.shape,
       _meta: { ui: { resourceUri } },
     },
-    async ({ fanId, lookbackDays: lookbackDaysParam }): Promise<CallToolResult> => {
-      const lookbackDays = lookbackDaysParam ?? 90;
-      const cutoffDate = new Date(Date.now() - lookbackDays * 86400000).toISOString().slice(0, 10);
+    withToolErrors(async ({ fanId, lookbackDays: lookbackDaysParam, team, interval, sortBy = "engagementScore", limit, cursor }): Promise<CallToolResult> => {
+      const lookbackDays = lookbackDaysParam ?? DEFAULT_LOOKBACK_DAYS;
+      const cutoffDate = lookbackCutoff(lookbackDays);
+      const today = new Date().toISOString().slice(0, 10);
+      const trendInterval = interval ?? defaultInterval(lookbackDays);
 
       if (fanId) {
         const fan = db.getFanByIdOrEmail(fanId);
+        if (!fan) {
+          throw new ToolError("not_found", "Fan not found", { fanId });
+        }
         const metrics = db.getEngagementSummary(fanId, cutoffDate);
         // Shape as a single-entry FanMetric so the chart UI can render it
         const fanMetric = {
           fanId,
-          name: fan ? `${fan.firstName} ${fan.lastName}` : fanId,
-          favoriteTeam: fan?.favoriteTeam ?? "Unknown",
+          name: `${fan.firstName} ${fan.lastName}`,
+          favoriteTeam: fan.favoriteTeam,
           totalEvents: metrics.totalEvents,
-          eventTypes: new Set(
-            [metrics.gamesAttended > 0, metrics.appOpens > 0, metrics.socialShares > 0, metrics.contentViews > 0]
-              .filter(Boolean)
-          ).size,
+          eventTypes: Object.keys(metrics.eventCounts).length,
           gamesAttended: metrics.gamesAttended,
           lastEngagement: metrics.lastEvent !== "none" ? String(metrics.lastEvent) : "none",
-          engagementScore: metrics.totalEvents * 2 + metrics.gamesAttended * 2,
+          ...scoreFan(fanId, cutoffDate),
           details: metrics,
         };
-        return {
-          content: [{ type: "text", text: JSON.stringify({ lookbackDays, fans: [fanMetric] }, null, 2) }],
-          structuredContent: { lookbackDays, fans: [fanMetric] },
+        const trend = getEngagementTrend(trendInterval, cutoffDate, today, { fanId });
+        const result: GetFanEngagementMetricsResult = {
+          lookbackDays,
+          team: null,
+          scoring: getScoringModel(),
+          sortBy,
+          totalFans: 1,
+          fans: [fanMetric],
+          nextCursor: null,
+          trend,
         };
+        return jsonResult(result);
       }
 
-      const rawFans = db.getAllFanMetrics(cutoffDate);
-      const fans = rawFans.map((f) => ({
-        ...f,
-        lastEngagement: f.lastEngagement ?? "none",
-        engagementScore: f.totalEvents * f.eventTypes + f.gamesAttended * 2,
-      }));
+      const allFans = rankFanMetrics(cutoffDate, team, sortBy);
+      const page = paginate(allFans, { limit, cursor, query: { lookbackDays, team, sortBy } });
 
-      return {
-        content: [{ type: "text", text: JSON.stringify({ lookbackDays, fans }, null, 2) }],
-        structuredContent: { lookbackDays, fans },
+      const trend = getEngagementTrend(trendInterval, cutoffDate, today, { team });
+      const result: GetFanEngagementMetricsResult = {
+        lookbackDays,
+        team: team ?? null,
+        scoring: getScoringModel(),
+        sortBy,
+        totalFans: allFans.length,
+        fans: page.items,
+        nextCursor: page.nextCursor,
+        trend,
       };
-    }
-  );
-
-  registerAppResource(
-    server,
-    resourceUri,
-    resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE, description: "Fan Engagement Metrics Chart" },
-    async (): Promise<ReadResourceResult> => ({
-      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml("src/ui/engagement-chart/mcp-app.html") }],
+      return jsonResult(result);
     })
   );
+
+  registerUiResource(server, resourceUri, "Fan Engagement Metrics Chart", "src/ui/engagement-chart/mcp-app.html");
 }
 
 // ── SearchMerchandise + Product Grid UI ──
 
 const SearchMerchInput = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe("Free-text search over product name, team, player and category (e.g. 'thunderbolt hoodie'). Words match as prefixes; misspelt words are matched to the closest catalog words."),
   team: z.string().optional().describe("Filter by team name (e.g. 'Thunderbolts')"),
   category: z
     .string()
     .optional()
     .describe("Filter by category (e.g. 'Jersey', 'Hat', 'Accessory', 'Drinkware', 'Apparel', 'Equipment', 'Collectible')"),
+  categories: z.array(z.string()).optional().describe("Only these categories (any of them, exact names, e.g. ['Hat', 'Apparel'])"),
   player: z.string().optional().describe("Filter by player name"),
+  minPrice: z.number().optional().describe("Minimum price filter"),
   maxPrice: z.number().optional().describe("Maximum price filter"),
   inStockOnly: z.boolean().optional().describe("Only show in-stock items (default: true)"),
+  sortBy: z
+    .enum(MERCH_SORTS)
+    .optional()
+    .describe("Order of results: relevance (default with a query), category (default otherwise, then price), price_asc, price_desc, name, or stock (lowest first)"),
+  ...PageInputShape,
 });
 
+/** The text search and filters for SearchMerchandise arguments, and the sort they resolve to */
+function prepareMerchSearch(args: Omit<db.MerchandiseFilters, "match"> & { text?: string; sortBy?: MerchSort }) {
+  const { text, sortBy: sortParam, ...rest } = args;
+  if (rest.minPrice !== undefined && rest.maxPrice !== undefined && rest.minPrice > rest.maxPrice) {
+    throw new ToolError("validation", "minPrice is greater than maxPrice", { minPrice: rest.minPrice, maxPrice: rest.maxPrice });
+  }
+  const search = text !== undefined ? buildProductSearch(text) : { match: null, corrections: [] };
+  const requested = sortParam ?? (search.match ? "relevance" : "category");
+  const sortBy: MerchSort = requested === "relevance" && !search.match ? "category" : requested;
+  return { search, filters: { ...rest, match: search.match ?? undefined }, sortBy };
+}
+
+function toProductResult(row: ReturnType<typeof db.searchMerchandise>[number]): ProductResult {
+  return {
+    ...row,
+    inStock: row.inStock === 1,
+    lowStock: db.isLowStock(row.stockQuantity, row.reorderThreshold),
+  };
+}
+
 export function registerSearchMerchandise(server: McpServer) {
   const resourceUri = "ui://fanpulse/merch-search.html";
 
@@ -192,29 +871,32 @@ export function registerSearchMerchandise(server: McpServer) {
     "SearchMerchandise",
     {
       title: "Search Merchandise",
-      description: "Search the merchandise catalog with optional filters for team, category, player, and price range.",
+      description:
+        "Search the merchandise catalog by free text (typo-tolerant, ranked by relevance) and/or filters for team, categories, player, and price range. Results are paged: pass nextCursor back as cursor for more.",
       inputSchema: SearchMerchInput.shape,
+      outputSchema: SearchMerchandiseOutput.shape,
       _meta: { ui: { resourceUri } },
     },
-    async ({ team, category, player, maxPrice, inStockOnly }): Promise<CallToolResult> => {
-      const results = db.searchMerchandise({ team, category, player, maxPrice, inStockOnly });
-      const products = results.map((r) => ({ ...r, inStock: r.inStock === 1 }));
-      return {
-        content: [{ type: "text", text: JSON.stringify({ resultCount: products.length, products }, null, 2) }],
-        structuredContent: { resultCount: products.length, products },
+    withToolErrors(async ({ query: text, team, category, categories, player, minPrice, maxPrice, inStockOnly, sortBy: sortParam, limit, cursor }): Promise<CallToolResult> => {
+      const { search, filters, sortBy } = prepareMerchSearch({ text, team, category, categories, player, minPrice, maxPrice, inStockOnly, sortBy: sortParam });
+      const query = { text, team, category, categories: categories?.join("\n"), player, minPrice, maxPrice, inStockOnly, sortBy };
+      const window = pageWindow({ limit, cursor, query });
+      const totalCount = db.countMerchandise(filters);
+      const products = db.searchMerchandise(filters, { sortBy, ...window }).map(toProductResult);
+      const result: SearchMerchandiseResult = {
+        query: text ?? null,
+        corrections: search.corrections,
+        sortBy,
+        resultCount: products.length,
+        totalCount,
+        products,
+        nextCursor: nextCursor(window.offset, window.limit, totalCount, query),
       };
-    }
-  );
-
-  registerAppResource(
-    server,
-    resourceUri,
-    resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE, description: "Merchandise Search Product Grid" },
-    async (): Promise<ReadResourceResult> => ({
-      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml("src/ui/merch-search/mcp-app.html") }],
+      return jsonResult(result);
     })
   );
+
+  registerUiResource(server, resourceUri, "Merchandise Search Product Grid", "src/ui/merch-search/mcp-app.html");
 }
 
 // ── GetMerchRecommendations + Cards UI ──
@@ -233,81 +915,228 @@ export function registerGetMerchRecommendations(server: McpServer) {
     {
       title: "Get Merchandise Recommendations",
       description:
-        "Get personalized merchandise recommendations for a fan based on their profile, engagement history, and purchase patterns.",
+        "Get personalized merchandise recommendations for a fan. Blends profile rules (team, player, price fit) with co-purchases (\"fans who bought X also bought Y\"), category affinity, and popularity within the fan's team and segment, and returns each pick's per-signal score breakdown.",
       inputSchema: GetRecsInput.shape,
+      outputSchema: GetMerchRecommendationsOutput.shape,
       _meta: { ui: { resourceUri } },
     },
-    async ({ fanId, maxResults }): Promise<CallToolResult> => {
-      const limit = maxResults ?? 5;
+    withToolErrors(async ({ fanId, maxResults }): Promise<CallToolResult> => {
       const fanRow = db.getFanForRecommendation(fanId);
-      if (!fanRow) {
-        return { content: [{ type: "text", text: JSON.stringify({ error: "Fan not found", fanId }) }] };
+      const recommendations = fanRow ? recommendForFan(fanId, { limit: maxResults ?? 5 }) : null;
+      if (!fanRow || !recommendations) {
+        throw new ToolError("not_found", "Fan not found", { fanId });
       }
-
       const { FavoriteTeam: favoriteTeam, FavoritePlayers: favoritePlayers } = fanRow;
-      const purchased = db.getPurchasedProductIds(fanId);
-      const { total: totalEngagements, games: gamesAttended } = db.getFanEngagementCounts(fanId);
-      const allMerch = db.getAllInStockMerchandise();
 
-      const recommendations: { score: number; reason: string; product: typeof allMerch[0] }[] = [];
+      const cutoffDate = lookbackCutoff();
+      const { engagementScore, engagementLevel } = scoreFan(fanId, cutoffDate);
 
-      for (const prod of allMerch) {
-        if (purchased.has(prod.productId)) continue;
+      const result: GetMerchRecommendationsResult = {
+        fanId,
+        favoriteTeam,
+        favoritePlayers,
+        engagementScore,
+        engagementLevel,
+        scoring: getScoringModel(),
+        signalWeights: SIGNAL_WEIGHTS,
+        recommendations,
+      };
+      return jsonResult(result);
+    })
+  );
 
-        let score = 0;
-        const reasons: string[] = [];
+  registerUiResource(server, resourceUri, "Personalized Merchandise Recommendations", "src/ui/merch-recommendations/mcp-app.html");
+}
 
-        if (prod.team.toLowerCase() === favoriteTeam.toLowerCase()) {
-          score += 10;
-          reasons.push("Matches favorite team");
-        }
-        if (prod.player && favoritePlayers.toLowerCase().includes(prod.player.toLowerCase())) {
-          score += 15;
-          reasons.push(`Features favorite player: ${prod.player}`);
-        }
-        if (gamesAttended >= 3 && prod.price > 50) {
-          score += 5;
-          reasons.push("Premium pick for dedicated fan");
-        }
-        if (totalEngagements < 3 && prod.price < 30) {
-          score += 5;
-          reasons.push("Great entry-level item");
-        }
+// ── RecordPurchase ──
 
-        if (score > 0) {
-          recommendations.push({
-            score,
-            reason: reasons.join("; "),
-            product: { ...prod, inStock: prod.inStock === 1 ? 1 : 0 },
-          });
-        }
+const RecordPurchaseInput = z.object({
+  fanId: z.string().describe("The fan ID making the purchase (e.g. 'fan-001')"),
+  productId: z.string().describe("The product ID being purchased (e.g. 'prod-003')"),
+  quantity: z.number().int().min(1).optional().describe("Number of units (default: 1)"),
+  purchaseDate: z
+    .string()
+    .optional()
+    .describe("Date of the purchase in YYYY-MM-DD format (defaults to today). Promotions running on this date apply, including ones cancelled since."),
+});
+
+export function registerRecordPurchase(server: McpServer) {
+  server.registerTool(
+    "RecordPurchase",
+    {
+      title: "Record Purchase",
+      description:
+        "Record a merchandise purchase for a fan. Checks enough units are in stock, decrements inventory, and automatically applies the best active promotion for the fan's segment and the product's category.",
+      inputSchema: RecordPurchaseInput.shape,
+      outputSchema: RecordPurchaseOutput.shape,
+    },
+    withToolErrors(async ({ fanId, productId, quantity: quantityParam, purchaseDate }): Promise<CallToolResult> => {
+      if (purchaseDate !== undefined && !isValidDate(purchaseDate)) {
+        throw new ToolError("validation", `purchaseDate '${purchaseDate}' is not a valid YYYY-MM-DD date`, { purchaseDate });
+      }
+      if (!db.fanExists(fanId)) {
+        throw new ToolError("not_found", "Fan not found", { fanId });
+      }
+      const product = db.getProductById(productId);
+      if (!product) {
+        throw new ToolError("not_found", "Product not found", { productId });
+      }
+      const quantity = quantityParam ?? 1;
+      if (product.stockQuantity < quantity) {
+        throw new ToolError("conflict", product.stockQuantity === 0 ? "Product is out of stock" : "Insufficient stock", {
+          productId,
+          name: product.name,
+          requested: quantity,
+          available: product.stockQuantity,
+        });
       }
 
-      recommendations.sort((a, b) => b.score - a.score);
-      const topRecs = recommendations.slice(0, limit).map((r) => ({
-        product: { ...r.product, inStock: Boolean(r.product.inStock) },
-        relevanceScore: r.score,
-        reason: r.reason,
-      }));
+      const date = purchaseDate ?? new Date().toISOString().slice(0, 10);
+      const promotion = findApplicablePromotion(fanId, product.category, date);
+      const listPrice = Math.round(product.price * quantity * 100) / 100;
+      const discountPercent = promotion?.discountPercent ?? 0;
+      const totalPrice = Math.round(listPrice * (1 - discountPercent / 100) * 100) / 100;
 
-      const engagementLevel =
-        gamesAttended >= 4 ? "superfan" : gamesAttended >= 2 ? "regular" : "casual";
+      const purchaseId = `pur-${crypto.randomUUID().replace(/-/g, "").slice(0, 8)}`;
+      // Stock is re-checked by the conditional decrement, so a purchase that raced
+      // another one for the last units is rejected rather than overselling
+      const recorded = db.runInTransaction(() => {
+        if (!db.decrementStock(productId, quantity)) return false;
+        db.insertPurchase({
+          purchaseId,
+          fanId,
+          productId,
+          purchaseDate: date,
+          quantity,
+          totalPrice,
+          promotionId: promotion?.promotionId ?? null,
+        });
+        return true;
+      });
+      if (!recorded) {
+        const available = db.getProductById(productId)?.stockQuantity ?? 0;
+        throw new ToolError("conflict", "Insufficient stock", { productId, name: product.name, requested: quantity, available });
+      }
+      recordChange({ tables: ["Purchases", "Merchandise"], fanIds: [fanId], productIds: [productId] });
+      const remainingStock = product.stockQuantity - quantity;
 
-      const result = { fanId, favoriteTeam, favoritePlayers, engagementLevel, recommendations: topRecs };
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        structuredContent: result,
+      const result: RecordPurchaseResult = {
+        success: true,
+        purchaseId,
+        fanId,
+        productId,
+        productName: product.name,
+        category: product.category,
+        purchaseDate: date,
+        quantity,
+        unitPrice: product.price,
+        listPrice,
+        discountPercent,
+        totalPrice,
+        promotion: promotion ? { promotionId: promotion.promotionId, name: promotion.name } : null,
+        remainingStock,
+        lowStock: db.isLowStock(remainingStock, product.reorderThreshold),
       };
-    }
+      return jsonResult(result);
+    })
   );
+}
 
-  registerAppResource(
-    server,
-    resourceUri,
-    resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE, description: "Personalized Merchandise Recommendations" },
-    async (): Promise<ReadResourceResult> => ({
-      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml("src/ui/merch-recommendations/mcp-app.html") }],
+// ── Inventory ──
+
+const AdjustInventoryInput = z.object({
+  productId: z.string().describe("The product ID to adjust (e.g. 'prod-003')"),
+  adjustment: z
+    .number()
+    .int()
+    .optional()
+    .describe("Units to add (positive, e.g. a restock) or remove (negative, e.g. damaged goods)"),
+  stockQuantity: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Set the quantity on hand to an absolute count (e.g. after a stock take). Use instead of adjustment."),
+  reorderThreshold: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("New reorder threshold — the product is reported as low stock at or below this quantity"),
+});
+
+export function registerAdjustInventory(server: McpServer) {
+  server.registerTool(
+    "AdjustInventory",
+    {
+      title: "Adjust Inventory",
+      description:
+        "Restock, correct, or write off inventory for a product, and optionally change its reorder threshold. Provide either a relative adjustment or an absolute stockQuantity, a reorderThreshold, or both.",
+      inputSchema: AdjustInventoryInput.shape,
+      outputSchema: AdjustInventoryOutput.shape,
+    },
+    withToolErrors(async ({ productId, adjustment, stockQuantity, reorderThreshold }): Promise<CallToolResult> => {
+      if (adjustment == null && stockQuantity == null && reorderThreshold == null) {
+        throw new ToolError("validation", "Provide adjustment, stockQuantity or reorderThreshold", { productId });
+      }
+      const product = db.getProductById(productId);
+      if (!product) {
+        throw new ToolError("not_found", "Product not found", { productId });
+      }
+      if (adjustment != null && stockQuantity != null) {
+        throw new ToolError("validation", "Provide either adjustment or stockQuantity, not both", { productId });
+      }
+
+      const newQuantity = stockQuantity ?? product.stockQuantity + (adjustment ?? 0);
+      if (newQuantity < 0) {
+        throw new ToolError("validation", "Adjustment would make stock negative", {
+          productId,
+          available: product.stockQuantity,
+          adjustment,
+        });
+      }
+      const newThreshold = reorderThreshold ?? product.reorderThreshold;
+      db.setStockLevel(productId, newQuantity, newThreshold);
+      recordChange({ tables: ["Merchandise"], productIds: [productId] });
+
+      const result: AdjustInventoryResult = {
+        success: true,
+        productId,
+        name: product.name,
+        previousQuantity: product.stockQuantity,
+        stockQuantity: newQuantity,
+        reorderThreshold: newThreshold,
+        lowStock: db.isLowStock(newQuantity, newThreshold),
+      };
+      return jsonResult(result);
+    })
+  );
+}
+
+export function registerGetLowStockReport(server: McpServer) {
+  server.registerTool(
+    "GetLowStockReport",
+    {
+      title: "Get Low Stock Report",
+      description: "List products at or below their reorder threshold, including sold-out items, so they can be restocked.",
+      outputSchema: GetLowStockReportOutput.shape,
+    },
+    withToolErrors(async (): Promise<CallToolResult> => {
+      const products = db.getLowStockProducts().map((p) => ({
+        productId: p.productId,
+        name: p.name,
+        category: p.category,
+        team: p.team,
+        stockQuantity: p.stockQuantity,
+        reorderThreshold: p.reorderThreshold,
+        outOfStock: p.stockQuantity === 0,
+      }));
+      const result: GetLowStockReportResult = {
+        productCount: products.length,
+        outOfStockCount: products.filter((p) => p.outOfStock).length,
+        products,
+      };
+      return jsonResult(result);
     })
   );
 }
@@ -317,13 +1146,33 @@ export function registerGetMerchRecommendations(server: McpServer) {
 const CreatePromoInput = z.object({
   name: z.string().describe("Name for the promotion"),
   description: z.string().describe("Description of the promotion"),
-  discountPercent: z.number().describe("Discount percentage (e.g. 15 for 15% off)"),
+  discountPercent: z.number().describe("Discount percentage between 0 and 100 (e.g. 15 for 15% off)"),
   targetSegment: z
+    .enum(PROMOTION_SEGMENTS)
+    .describe(
+      "Target fan segment, as reported by GetFanSegments: all, superfans, engaged_no_purchase, buyers_low_engagement, casual_fans, dormant_fans"
+    ),
+  targetTeam: z
     .string()
-    .describe("Target fan segment: all, high_engagement, low_engagement, no_purchases, specific_team"),
+    .optional()
+    .describe("Optional team to narrow the segment to (e.g. 'Thunderbolts'). Omit to target fans of every team."),
+  targetInactiveDays: z
+    .number()
+    .optional()
+    .describe(
+      "Optional: only fans who haven't engaged for at least this many days when the promotion starts, or ever (e.g. 60 for a win-back offer). Omit to target fans however recently they engaged."
+    ),
   productCategory: z.string().describe("Product category to apply promotion to (e.g. 'Jersey', 'Hat', or 'all')"),
   startDate: z.string().optional().describe("Start date in YYYY-MM-DD format (defaults to today)"),
-  endDate: z.string().optional().describe("End date in YYYY-MM-DD format (defaults to 30 days from start)"),
+  endDate: z.string().optional().describe("End date in YYYY-MM-DD format, on or after the start date (defaults to 30 days from start)"),
+  allowOverlap: z
+    .boolean()
+    .optional()
+    .describe("Create the promotion even if it overlaps an existing promotion for the same segment, team and category (default: false)"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("Only validate and check for conflicts — don't create anything (default: false)"),
 });
 
 export function registerCreatePromotion(server: McpServer) {
@@ -335,71 +1184,344 @@ export function registerCreatePromotion(server: McpServer) {
     {
       title: "Create Promotion",
       description:
-        "Create a targeted promotion or discount offer for a specific fan segment and product category.",
+        "Create a targeted promotion or discount offer for a fan segment (the same segments GetFanSegments returns), optionally narrowed to one team, and a product category. Returns the exact audience size as estimatedReach. Rejects invalid discounts or dates, and promotions that overlap an existing one for the same segment, team and category unless allowOverlap is set.",
       inputSchema: CreatePromoInput.shape,
+      outputSchema: CreatePromotionOutput.shape,
       _meta: { ui: { resourceUri } },
     },
-    async ({
+    withToolErrors(async ({
       name,
       description,
       discountPercent,
       targetSegment,
+      targetTeam,
+      targetInactiveDays,
       productCategory,
       startDate,
       endDate,
+      allowOverlap,
+      dryRun,
     }): Promise<CallToolResult> => {
-      const promotionId = `promo-${crypto.randomUUID().replace(/-/g, "").slice(0, 8)}`;
       const start = startDate ?? new Date().toISOString().slice(0, 10);
-      const end = endDate ?? new Date(new Date(start).getTime() + 30 * 86400000).toISOString().slice(0, 10);
-
-      db.insertPromotion({
-        promotionId,
-        name,
-        description,
+      const startMs = Date.parse(start);
+      const end =
+        endDate ?? (Number.isNaN(startMs) ? start : new Date(startMs + 30 * 86400000).toISOString().slice(0, 10));
+      const draft = {
         discountPercent,
         targetSegment,
+        targetTeam: targetTeam ?? null,
+        targetInactiveDays: targetInactiveDays ?? null,
         productCategory,
         startDate: start,
         endDate: end,
+      };
+
+      const validationErrors = validatePromotion(draft);
+      const conflicts = validationErrors.length === 0 ? findConflictingPromotions(draft) : [];
+      const estimatedReach = getAudience(targetSegment, targetTeam, undefined, targetInactiveDays).length;
+
+      // A dry run is a check, so its findings are the result rather than an error
+      if (dryRun) {
+        const result: CreatePromotionResult = {
+          success: validationErrors.length === 0,
+          dryRun: true,
+          ...draft,
+          targetTeam: targetTeam ?? "all",
+          estimatedReach,
+          validationErrors,
+          conflicts,
+        };
+        return jsonResult(result);
+      }
+
+      if (validationErrors.length > 0) {
+        throw new ToolError("validation", "Invalid promotion", { validationErrors });
+      }
+      if (conflicts.length > 0 && !allowOverlap) {
+        const error = `Overlaps ${conflicts.length} existing promotion${conflicts.length !== 1 ? "s" : ""} for the same segment and category. Pass allowOverlap: true to create it anyway.`;
+        throw new ToolError("conflict", error, { conflicts });
+      }
+
+      const promotionId = `promo-${crypto.randomUUID().replace(/-/g, "").slice(0, 8)}`;
+      db.insertPromotion({
+        promotionId,
+        name,
+        description,
+        ...draft,
         createdDate: new Date().toISOString().slice(0, 10),
       });
+      recordChange({ tables: ["Promotions"], promotionIds: [promotionId], listChanged: true });
 
-      const estimatedReach = db.countTargetFans(targetSegment);
-      const result = {
+      const result: CreatePromotionResult = {
         success: true,
         promotionId,
         name,
         description,
         discountPercent,
         targetSegment,
+        targetTeam: targetTeam ?? "all",
+        targetInactiveDays: targetInactiveDays ?? null,
         productCategory,
         startDate: start,
         endDate: end,
         estimatedReach,
+        // Overlaps that were explicitly allowed are still reported so they aren't forgotten
+        warnings: conflicts.map(
+          (c) => `Overlaps '${c.name}' (${c.promotionId}): ${c.discountPercent}% off ${c.productCategory}, ${c.startDate} → ${c.endDate}`
+        ),
+        conflicts,
       };
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        structuredContent: result,
+      return jsonResult(result);
+    })
+  );
+
+  registerUiResource(server, resourceUri, "Promotion Builder Form", "src/ui/promo-builder/mcp-app.html");
+}
+
+// ── ListPromotions + Promotions Manager UI ──
+
+const ListPromotionsInput = z.object({
+  status: z
+    .enum(PROMOTION_STATUSES)
+    .optional()
+    .describe("Only return promotions with this status: scheduled, active, expired, or cancelled"),
+});
+
+export function registerListPromotions(server: McpServer) {
+  const resourceUri = "ui://fanpulse/promotions-manager.html";
+
+  registerAppTool(
+    server,
+    "ListPromotions",
+    {
+      title: "List Promotions",
+      description:
+        "List promotions with their status (scheduled, active, expired, cancelled), derived from the start/end dates, and their current audience size.",
+      inputSchema: ListPromotionsInput.shape,
+      outputSchema: ListPromotionsOutput.shape,
+      _meta: { ui: { resourceUri } },
+    },
+    withToolErrors(async ({ status }): Promise<CallToolResult> => {
+      const today = new Date().toISOString().slice(0, 10);
+      const promotions = db.getPromotions(today, status).map((p) => ({
+        ...p,
+        estimatedReach: getPromotionReach(p),
+      }));
+
+      const result: ListPromotionsResult = { statusFilter: status ?? "all", resultCount: promotions.length, promotions };
+      return jsonResult(result);
+    })
+  );
+
+  registerUiResource(server, resourceUri, "Promotions Manager", "src/ui/promotions-manager/mcp-app.html");
+}
+
+// ── GetPromotion ──
+
+const GetPromotionInput = z.object({
+  promotionId: z.string().describe("The promotion ID (e.g. 'promo-1a2b3c4d')"),
+});
+
+export function registerGetPromotion(server: McpServer) {
+  server.registerTool(
+    "GetPromotion",
+    {
+      title: "Get Promotion",
+      description: "Get a single promotion's details, current status, and audience size.",
+      inputSchema: GetPromotionInput.shape,
+      outputSchema: GetPromotionOutput.shape,
+    },
+    withToolErrors(async ({ promotionId }): Promise<CallToolResult> => {
+      const promotion = db.getPromotionById(promotionId, new Date().toISOString().slice(0, 10));
+      if (!promotion) {
+        throw new ToolError("not_found", "Promotion not found", { promotionId });
+      }
+      const result: GetPromotionResult = { ...promotion, estimatedReach: getPromotionReach(promotion) };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── UpdatePromotion ──
+
+const UpdatePromotionInput = z.object({
+  promotionId: z.string().describe("The promotion ID to update"),
+  name: z.string().optional().describe("New name for the promotion"),
+  description: z.string().optional().describe("New description"),
+  discountPercent: z.number().optional().describe("New discount percentage (e.g. 20 for 20% off)"),
+  targetSegment: z
+    .enum(PROMOTION_SEGMENTS)
+    .optional()
+    .describe("New target segment: all, superfans, engaged_no_purchase, buyers_low_engagement, casual_fans, dormant_fans"),
+  targetTeam: z
+    .string()
+    .optional()
+    .describe("New team to narrow the segment to. Pass 'all' to remove the team filter."),
+  targetInactiveDays: z
+    .number()
+    .optional()
+    .describe("New minimum number of days the targeted fans have gone without engaging. Pass 0 to remove the filter."),
+  productCategory: z.string().optional().describe("New product category (e.g. 'Jersey', or 'all')"),
+  startDate: z.string().optional().describe("New start date in YYYY-MM-DD format"),
+  endDate: z.string().optional().describe("New end date in YYYY-MM-DD format, e.g. to extend or end a promotion early"),
+  allowOverlap: z
+    .boolean()
+    .optional()
+    .describe("Apply the update even if the promotion would then overlap another for the same segment, team and category (default: false)"),
+});
+
+export function registerUpdatePromotion(server: McpServer) {
+  server.registerTool(
+    "UpdatePromotion",
+    {
+      title: "Update Promotion",
+      description:
+        "Edit a scheduled or active promotion — change its discount, target, category, or dates. Only the fields provided are changed.",
+      inputSchema: UpdatePromotionInput.shape,
+      outputSchema: UpdatePromotionOutput.shape,
+    },
+    withToolErrors(async ({ promotionId, targetTeam, targetInactiveDays, allowOverlap, ...changes }): Promise<CallToolResult> => {
+      const today = new Date().toISOString().slice(0, 10);
+      const existing = db.getPromotionById(promotionId, today);
+      if (!existing) {
+        throw new ToolError("not_found", "Promotion not found", { promotionId });
+      }
+      if (existing.status === "cancelled" || existing.status === "expired") {
+        throw new ToolError("conflict", `Cannot update a ${existing.status} promotion`, { promotionId });
+      }
+
+      const fields = {
+        name: changes.name ?? existing.name,
+        description: changes.description ?? existing.description,
+        discountPercent: changes.discountPercent ?? existing.discountPercent,
+        targetSegment: changes.targetSegment ?? existing.targetSegment,
+        targetTeam: targetTeam === undefined ? existing.targetTeam : targetTeam === "all" ? null : targetTeam,
+        targetInactiveDays:
+          targetInactiveDays === undefined ? existing.targetInactiveDays : targetInactiveDays === 0 ? null : targetInactiveDays,
+        productCategory: changes.productCategory ?? existing.productCategory,
+        startDate: changes.startDate ?? existing.startDate,
+        endDate: changes.endDate ?? existing.endDate,
       };
-    }
+
+      const validationErrors = validatePromotion(fields);
+      if (validationErrors.length > 0) {
+        throw new ToolError("validation", "Invalid promotion", { promotionId, validationErrors });
+      }
+      const conflicts = findConflictingPromotions(fields, promotionId);
+      if (conflicts.length > 0 && !allowOverlap) {
+        const error = `Overlaps ${conflicts.length} existing promotion${conflicts.length !== 1 ? "s" : ""} for the same segment and category. Pass allowOverlap: true to update it anyway.`;
+        throw new ToolError("conflict", error, { promotionId, conflicts });
+      }
+
+      db.updatePromotion(promotionId, fields);
+      recordChange({ tables: ["Promotions"], promotionIds: [promotionId], listChanged: true });
+
+      const updated = db.getPromotionById(promotionId, today)!;
+      const result: UpdatePromotionResult = { success: true, ...updated, estimatedReach: getPromotionReach(updated), conflicts };
+      return jsonResult(result);
+    })
   );
+}
 
-  registerAppResource(
+// ── CancelPromotion ──
+
+const CancelPromotionInput = z.object({
+  promotionId: z.string().describe("The promotion ID to cancel"),
+});
+
+export function registerCancelPromotion(server: McpServer) {
+  server.registerTool(
+    "CancelPromotion",
+    {
+      title: "Cancel Promotion",
+      description: "Cancel a scheduled or active promotion. The promotion is kept for reporting but is no longer active.",
+      inputSchema: CancelPromotionInput.shape,
+      outputSchema: CancelPromotionOutput.shape,
+    },
+    withToolErrors(async ({ promotionId }): Promise<CallToolResult> => {
+      const today = new Date().toISOString().slice(0, 10);
+      const existing = db.getPromotionById(promotionId, today);
+      if (!existing) {
+        throw new ToolError("not_found", "Promotion not found", { promotionId });
+      }
+      if (existing.status === "cancelled" || existing.status === "expired") {
+        throw new ToolError("conflict", `Promotion is already ${existing.status}`, { promotionId });
+      }
+
+      db.cancelPromotion(promotionId, today);
+      recordChange({ tables: ["Promotions"], promotionIds: [promotionId], listChanged: true });
+      const result: CancelPromotionResult = { success: true, ...db.getPromotionById(promotionId, today)! };
+      return jsonResult(result);
+    })
+  );
+}
+
+// ── GetPromotionPerformance + Performance Chart UI ──
+
+const GetPromotionPerformanceInput = z.object({
+  promotionId: z.string().describe("The promotion ID to measure (e.g. 'promo-1a2b3c4d')"),
+});
+
+export function registerGetPromotionPerformance(server: McpServer) {
+  const resourceUri = "ui://fanpulse/promotion-performance.html";
+
+  registerAppTool(
     server,
-    resourceUri,
-    resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE, description: "Promotion Builder Form" },
-    async (): Promise<ReadResourceResult> => ({
-      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml("src/ui/promo-builder/mcp-app.html") }],
+    "GetPromotionPerformance",
+    {
+      title: "Get Promotion Performance",
+      description:
+        "Measure how a promotion performed: revenue, orders, and converted fans from the targeted segment in the promoted category during the promotion, compared with an equally long baseline period just before it.",
+      inputSchema: GetPromotionPerformanceInput.shape,
+      outputSchema: GetPromotionPerformanceOutput.shape,
+      _meta: { ui: { resourceUri } },
+    },
+    withToolErrors(async ({ promotionId }): Promise<CallToolResult> => {
+      const today = new Date().toISOString().slice(0, 10);
+      const promotion = db.getPromotionById(promotionId, today);
+      if (!promotion) {
+        throw new ToolError("not_found", "Promotion not found", { promotionId });
+      }
+      if (promotion.status === "scheduled") {
+        throw new ToolError("conflict", `Promotion hasn't started yet (starts ${promotion.startDate})`, { promotionId });
+      }
+      if (getMeasuredEnd(promotion, today) < promotion.startDate) {
+        throw new ToolError(
+          "validation",
+          `Promotion was cancelled on ${promotion.cancelledDate}, before it started on ${promotion.startDate}, so it has no results`,
+          { promotionId, startDate: promotion.startDate, cancelledDate: promotion.cancelledDate }
+        );
+      }
+
+      const result = getPromotionPerformance(promotion, today);
+      return jsonResult(result);
     })
   );
+
+  registerUiResource(server, resourceUri, "Promotion Performance Chart", "src/ui/promotion-performance/mcp-app.html");
 }
 
 // ── GetFanSegments + Segment Cards UI ──
 
 const GetSegmentsInput = z.object({
   team: z.string().optional().describe("Optional team filter"),
+  segment: z
+    .enum(SEGMENT_NAMES)
+    .optional()
+    .describe("Only return this segment — use it with a segment's nextCursor to page through its fans"),
+  inactiveDays: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Only fans who haven't engaged for at least this many days, or ever (e.g. 60 to find fans who have gone quiet)"),
+  sortBy: z
+    .enum(SEGMENT_FAN_SORTS)
+    .optional()
+    .describe("Order of each segment's fans: engagementCount (default), totalSpent, purchaseCount, lastEngagement (most recent first), or name"),
+  limit: PageInputShape.limit.describe(`Maximum number of fans per segment (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`),
+  cursor: PageInputShape.cursor,
 });
 
 export function registerGetFanSegments(server: McpServer) {
@@ -411,56 +1533,494 @@ export function registerGetFanSegments(server: McpServer) {
     {
       title: "Get Fan Segments",
       description:
-        "Get fan segments based on engagement and purchase behavior. Returns groups like 'high-engagement no-purchase', 'loyal buyers', 'at-risk fans', etc.",
+        "Get fan segments based on engagement and purchase behavior. Returns groups like 'high-engagement no-purchase', 'loyal buyers', 'at-risk fans', etc., each with its full count and one page of its fans. To see more of a segment, call again with that segment and its nextCursor.",
       inputSchema: GetSegmentsInput.shape,
+      outputSchema: GetFanSegmentsOutput.shape,
       _meta: { ui: { resourceUri } },
     },
-    async ({ team }): Promise<CallToolResult> => {
-      const rawFans = db.getFanSegmentData(team);
-      const segments: Record<string, typeof rawFans> = {
-        superfans: [],
-        engaged_no_purchase: [],
-        buyers_low_engagement: [],
-        casual_fans: [],
-        dormant_fans: [],
+    withToolErrors(async ({ team, segment: only, inactiveDays, sortBy = "engagementCount", limit, cursor }): Promise<CallToolResult> => {
+      if (cursor !== undefined && only === undefined) {
+        throw new ToolError("validation", "A cursor pages through one segment; pass the segment it came from");
+      }
+      const segments = getSegmentedFans(team, undefined, inactiveDays);
+
+      const result: GetFanSegmentsResult = {
+        teamFilter: team ?? "all",
+        sortBy,
+        segments: SEGMENT_NAMES.filter((segment) => only === undefined || segment === only).map((segment) => {
+          // Cursors are per segment, so a segment's page can be fetched on its own
+          const page = paginate(sortFans(segments[segment], sortBy), { limit, cursor, query: { team, segment, inactiveDays, sortBy } });
+          return {
+            segment,
+            description: SEGMENT_DESCRIPTIONS[segment],
+            count: segments[segment].length,
+            fans: page.items,
+            nextCursor: page.nextCursor,
+          };
+        }),
       };
 
-      for (const fan of rawFans) {
-        const f = { ...fan, lastEngagement: fan.lastEngagement ?? "never" };
-        const engagements = f.engagementCount;
-        const purchases = f.purchaseCount;
+      return jsonResult(result);
+    })
+  );
+
+  registerUiResource(server, resourceUri, "Fan Segments Explorer", "src/ui/fan-segments/mcp-app.html");
+}
+
+// ── ExportData + export resources ──
+
+const ExportArgs = z.object({
+  source: z
+    .enum(EXPORT_SOURCES)
+    .describe(
+      "segment (one segment's fans, with emails, as GetFanSegments lists them), engagement_metrics (the GetFanEngagementMetrics fan list) or merchandise (SearchMerchandise results)"
+    ),
+  segment: z.enum(SEGMENT_NAMES).optional().describe("For segment exports (required): the segment to export"),
+  team: z.string().optional().describe("Only this team's fans, or for merchandise its products"),
+  sortBy: z.string().optional().describe("Row order, as the source's tool takes it (default: that tool's default)"),
+  lookbackDays: z.number().optional().describe("For engagement_metrics: days of engagement to score (default 90)"),
+  query: z.string().optional().describe("For merchandise: free-text search, as in SearchMerchandise"),
+  category: z.string().optional().describe("For merchandise: filter by category"),
+  categories: z.array(z.string()).optional().describe("For merchandise: only these categories"),
+  player: z.string().optional().describe("For merchandise: filter by player name"),
+  minPrice: z.number().optional().describe("For merchandise: minimum price"),
+  maxPrice: z.number().optional().describe("For merchandise: maximum price"),
+  inStockOnly: z.boolean().optional().describe("For merchandise: only in-stock items (default: true)"),
+});
+
+type ExportArgs = z.infer<typeof ExportArgs>;
 
-        if (engagements >= 4 && purchases > 0) segments.superfans.push(f);
-        else if (engagements >= 3 && purchases === 0) segments.engaged_no_purchase.push(f);
-        else if (purchases > 0 && engagements < 3) segments.buyers_low_engagement.push(f);
-        else if (engagements >= 1 && engagements < 3) segments.casual_fans.push(f);
-        else segments.dormant_fans.push(f);
+/** The arguments each source takes besides source */
+const EXPORT_SOURCE_ARGS: Record<ExportSource, (keyof ExportArgs)[]> = {
+  segment: ["segment", "team", "sortBy"],
+  engagement_metrics: ["lookbackDays", "team", "sortBy"],
+  merchandise: ["query", "team", "category", "categories", "player", "minPrice", "maxPrice", "inStockOnly", "sortBy"],
+};
+
+function exportSort<T extends string>(sortBy: string | undefined, sorts: readonly T[]): T | undefined {
+  if (sortBy === undefined || (sorts as readonly string[]).includes(sortBy)) return sortBy as T | undefined;
+  throw new ToolError("validation", `sortBy must be one of ${sorts.join(", ")}`, { sortBy });
+}
+
+/** Every row the export covers, unpaged. Throws a validation ToolError for arguments its source doesn't take. */
+function runExport(args: ExportArgs): ExportTable {
+  const accepted: (keyof ExportArgs)[] = ["source", ...EXPORT_SOURCE_ARGS[args.source]];
+  const extra = (Object.keys(args) as (keyof ExportArgs)[]).filter((key) => args[key] !== undefined && !accepted.includes(key));
+  if (extra.length > 0) {
+    throw new ToolError("validation", `Not used by ${args.source} exports: ${extra.join(", ")}`, {
+      source: args.source,
+      accepted: EXPORT_SOURCE_ARGS[args.source],
+    });
+  }
+
+  switch (args.source) {
+    case "segment": {
+      if (!args.segment) throw new ToolError("validation", "Segment exports need a segment", { source: args.source });
+      const sortBy = exportSort(args.sortBy, SEGMENT_FAN_SORTS) ?? "engagementCount";
+      const fans = getSegmentedFans(args.team)[args.segment];
+      return { columns: Object.keys(FanSegmentEntrySchema.shape), rows: sortFans(fans, sortBy) };
+    }
+    case "engagement_metrics": {
+      const sortBy = exportSort(args.sortBy, FAN_METRIC_SORTS) ?? "engagementScore";
+      const cutoffDate = lookbackCutoff(args.lookbackDays ?? DEFAULT_LOOKBACK_DAYS);
+      return { columns: Object.keys(EngagementMetricSchema.shape), rows: rankFanMetrics(cutoffDate, args.team, sortBy) };
+    }
+    case "merchandise": {
+      const { team, category, categories, player, minPrice, maxPrice, inStockOnly } = args;
+      const { filters, sortBy } = prepareMerchSearch({
+        text: args.query,
+        team, category, categories, player, minPrice, maxPrice, inStockOnly,
+        sortBy: exportSort(args.sortBy, MERCH_SORTS),
+      });
+      return { columns: Object.keys(ProductResultSchema.shape), rows: db.searchMerchandise(filters, { sortBy }).map(toProductResult) };
+    }
+  }
+}
+
+/** e.g. fanpulse-engaged_no_purchase-summit-fc-2026-10-19.csv */
+function exportFileName(args: ExportArgs, format: ExportFormat): string {
+  const parts = ["fanpulse", args.segment ?? args.source, args.team, new Date().toISOString().slice(0, 10)];
+  const slug = parts
+    .filter((part): part is string => Boolean(part))
+    .map((part) => part.toLowerCase().replace(/[^a-z0-9_]+/g, "-").replace(/^-|-$/g, ""))
+    .join("-");
+  return `${slug}.${format}`;
+}
+
+const ExportDataInput = ExportArgs.extend({
+  format: z.enum(EXPORT_FORMATS).optional().describe("csv (default, with a header row) or ndjson (one JSON object per line)"),
+});
+
+export function registerExportData(server: McpServer) {
+  server.registerTool(
+    "ExportData",
+    {
+      title: "Export Data",
+      description:
+        "Export every row of a fan segment (with emails), the engagement metrics fan list, or a merchandise search as a CSV or NDJSON file — not just one page. Returns the fanpulse://exports/... resource URI to read the file from, its columns and row count. Reading the URI later re-runs the export with current data.",
+      inputSchema: ExportDataInput.shape,
+      outputSchema: ExportDataOutput.shape,
+    },
+    withToolErrors(async ({ format = "csv", ...args }): Promise<CallToolResult> => {
+      const table = runExport(args);
+      const exportId = encodeExportId(args);
+      const result: ExportDataResult = {
+        exportId,
+        uri: exportUri(exportId, format),
+        fileName: exportFileName(args, format),
+        source: args.source,
+        format,
+        mimeType: EXPORT_MIME_TYPES[format],
+        columns: table.columns,
+        rowCount: table.rows.length,
+      };
+      const response = jsonResult(result);
+      response.content.push({ type: "resource_link", uri: result.uri, name: result.fileName, mimeType: result.mimeType });
+      return response;
+    })
+  );
+
+  server.registerResource(
+    "export",
+    new ResourceTemplate(EXPORT_URI_TEMPLATE, { list: undefined }),
+    { title: "Data export", description: "A CSV or NDJSON file created with ExportData" },
+    async (uri, { exportId, format }): Promise<ReadResourceResult> => {
+      const args = ExportArgs.safeParse(decodeExportId(String(exportId)));
+      if (!args.success || !(EXPORT_FORMATS as readonly string[]).includes(String(format))) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown export: ${uri.href}`);
       }
+      let table: ExportTable;
+      try {
+        table = runExport(args.data);
+      } catch (err) {
+        if (err instanceof ToolError) throw new McpError(ErrorCode.InvalidParams, err.message, err.details);
+        throw err;
+      }
+      const fileFormat = format as ExportFormat;
+      return { contents: [{ uri: uri.href, mimeType: EXPORT_MIME_TYPES[fileFormat], text: renderExport(table, fileFormat) }] };
+    }
+  );
+}
 
-      const result = {
-        teamFilter: team ?? "all",
-        segments: Object.entries(segments).map(([key, fans]) => ({
-          segment: key,
-          description: SEGMENT_DESCRIPTIONS[key as SegmentName],
-          count: fans.length,
-          fans,
+// ── Data resources ──
+// Fans, products, promotions and segments as fanpulse:// resources, so a client can attach
+// one as context without a tool call. Each reads as the JSON its tool returns.
+
+const RESOURCE_PAGE_SIZE = 100;
+
+const JSON_MIME_TYPE = "application/json";
+
+function jsonResource(uri: URL, data: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+}
+
+function resourceNotFound(uri: URL): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`);
+}
+
+/** A segment with its first page of fans; nextCursor continues in GetFanSegments with the same segment */
+function getSegment(segment: SegmentName): SegmentGroup {
+  const fans = getSegmentedFans()[segment];
+  const page = paginate(sortFans(fans, "engagementCount"), {
+    query: { team: undefined, segment, sortBy: "engagementCount" },
+  });
+  return { segment, description: SEGMENT_DESCRIPTIONS[segment], count: fans.length, fans: page.items, nextCursor: page.nextCursor };
+}
+
+/** Part of the resources/list listing: how many resources it has and how to fetch some of them */
+interface ResourceGroup {
+  count: number;
+  list: (offset: number, limit: number) => Resource[];
+}
+
+function resourceGroups(server: McpServer): ResourceGroup[] {
+  const staticResources = uiResources.get(server) ?? [];
+  const promotions = db.getPromotions(new Date().toISOString().slice(0, 10));
+
+  return [
+    { count: staticResources.length, list: (offset, limit) => staticResources.slice(offset, offset + limit) },
+    {
+      count: SEGMENT_NAMES.length,
+      list: (offset, limit) =>
+        SEGMENT_NAMES.slice(offset, offset + limit).map((segment) => ({
+          uri: `fanpulse://segments/${segment}`,
+          name: segment,
+          description: SEGMENT_DESCRIPTIONS[segment],
+          mimeType: JSON_MIME_TYPE,
         })),
-      };
+    },
+    {
+      count: promotions.length,
+      list: (offset, limit) =>
+        promotions.slice(offset, offset + limit).map((p) => ({
+          uri: `fanpulse://promotions/${p.promotionId}`,
+          name: p.name,
+          description: `${p.status} promotion for ${p.targetSegment}, ${p.startDate} to ${p.endDate}`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+    },
+    {
+      count: db.countProducts(),
+      list: (offset, limit) =>
+        db.listProducts(offset, limit).map((p) => ({
+          uri: `fanpulse://products/${p.productId}`,
+          name: p.name,
+          description: `${p.category}, $${p.price.toFixed(2)}`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+    },
+    {
+      count: db.countFans(),
+      list: (offset, limit) =>
+        db.listFans(offset, limit).map((f) => ({
+          uri: `fanpulse://fans/${f.fanId}`,
+          name: f.name,
+          description: `${f.favoriteTeam} fan`,
+          mimeType: JSON_MIME_TYPE,
+        })),
+    },
+  ];
+}
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        structuredContent: result,
-      };
+/** One page of every resource: the static ones, then segments, promotions, products and fans */
+function listResourcesPage(server: McpServer, cursor: string | undefined): { resources: Resource[]; nextCursor?: string } {
+  const query = { list: "resources" };
+  let offset: number;
+  try {
+    offset = decodeCursor(cursor, query);
+  } catch (err) {
+    if (err instanceof ToolError) throw new McpError(ErrorCode.InvalidParams, err.message);
+    throw err;
+  }
+
+  const groups = resourceGroups(server);
+  const resources: Resource[] = [];
+  let skip = offset;
+  for (const group of groups) {
+    if (resources.length === RESOURCE_PAGE_SIZE) break;
+    if (skip >= group.count) {
+      skip -= group.count;
+      continue;
+    }
+    resources.push(...group.list(skip, RESOURCE_PAGE_SIZE - resources.length));
+    skip = 0;
+  }
+  const total = groups.reduce((sum, group) => sum + group.count, 0);
+  const next = nextCursor(offset, RESOURCE_PAGE_SIZE, total, query);
+  return next ? { resources, nextCursor: next } : { resources };
+}
+
+// Tables whose writes change what a fan, a segment or a promotion's reach reads as
+const FAN_ACTIVITY_TABLES: readonly ChangeTable[] = ["Fans", "EngagementEvents", "Purchases"];
+
+/** Whether a change can alter what the resource at uri reads as */
+function changeAffects(change: Change, uri: string): boolean {
+  const touches = (tables: readonly ChangeTable[]) => change.tables.some((table) => tables.includes(table));
+  const matches = (ids: string[] | null, id: string) => ids === null || ids.includes(id);
+  const [, kind = "", id = ""] = uri.match(/^fanpulse:\/\/(\w+)\/(.+)$/) ?? [];
+  switch (kind) {
+    case "fans":
+      return touches(FAN_ACTIVITY_TABLES) && matches(change.fanIds, decodeURIComponent(id));
+    case "products":
+      return touches(["Merchandise"]) && matches(change.productIds, decodeURIComponent(id));
+    case "promotions":
+      return (touches(["Promotions"]) && matches(change.promotionIds, decodeURIComponent(id))) || touches(FAN_ACTIVITY_TABLES);
+    case "segments":
+      return touches(FAN_ACTIVITY_TABLES);
+    case "exports":
+      return touches([...FAN_ACTIVITY_TABLES, "Merchandise"]);
+    default:
+      return false;
+  }
+}
+
+export function registerDataResources(server: McpServer) {
+  server.registerResource(
+    "fan",
+    new ResourceTemplate("fanpulse://fans/{fanId}", { list: undefined }),
+    { title: "Fan", description: "A fan's profile, recent engagement and purchases, as GetFanProfile returns them", mimeType: JSON_MIME_TYPE },
+    async (uri, { fanId }): Promise<ReadResourceResult> => {
+      const profile = getFanProfile(String(fanId));
+      if (!profile) throw resourceNotFound(uri);
+      return jsonResource(uri, profile);
     }
   );
 
-  registerAppResource(
-    server,
-    resourceUri,
-    resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE, description: "Fan Segments Explorer" },
-    async (): Promise<ReadResourceResult> => ({
-      contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: await loadUiHtml("src/ui/fan-segments/mcp-app.html") }],
+  server.registerResource(
+    "product",
+    new ResourceTemplate("fanpulse://products/{productId}", { list: undefined }),
+    { title: "Product", description: "A merchandise item with its price and stock", mimeType: JSON_MIME_TYPE },
+    async (uri, { productId }): Promise<ReadResourceResult> => {
+      const product = db.getProductById(String(productId));
+      if (!product) throw resourceNotFound(uri);
+      return jsonResource(uri, toProductResult(product));
+    }
+  );
+
+  server.registerResource(
+    "promotion",
+    new ResourceTemplate("fanpulse://promotions/{promotionId}", { list: undefined }),
+    { title: "Promotion", description: "A promotion with its status and audience size, as GetPromotion returns it", mimeType: JSON_MIME_TYPE },
+    async (uri, { promotionId }): Promise<ReadResourceResult> => {
+      const promotion = db.getPromotionById(String(promotionId), new Date().toISOString().slice(0, 10));
+      if (!promotion) throw resourceNotFound(uri);
+      const result: GetPromotionResult = { ...promotion, estimatedReach: getPromotionReach(promotion) };
+      return jsonResource(uri, result);
+    }
+  );
+
+  server.registerResource(
+    "segment",
+    new ResourceTemplate("fanpulse://segments/{segment}", {
+      list: undefined,
+      complete: { segment: (value) => SEGMENT_NAMES.filter((name) => name.startsWith(value)) },
+    }),
+    { title: "Fan segment", description: "A fan segment's size and its most engaged fans", mimeType: JSON_MIME_TYPE },
+    async (uri, { segment }): Promise<ReadResourceResult> => {
+      const name = SEGMENT_NAMES.find((s) => s === String(segment));
+      if (!name) throw resourceNotFound(uri);
+      return jsonResource(uri, getSegment(name));
+    }
+  );
+
+  // McpServer lists every resource in one response and gives template list callbacks no
+  // cursor, so its resources/list handler is replaced with one that pages. The listing comes
+  // from registerUiResource and the database, not from McpServer's registry.
+  server.server.setRequestHandler(ListResourcesRequestSchema, (request) => listResourcesPage(server, request.params?.cursor));
+
+  // Subscribed resources get notifications/resources/updated when a tool's write changes
+  // them, and every client gets list_changed when fans or promotions are added or removed
+  const subscribed = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscribed.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+
+  const stopWatching = onChange((change) => {
+    if (!server.isConnected()) return;
+    for (const uri of subscribed) {
+      if (changeAffects(change, uri)) server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+    if (change.listChanged) server.sendResourceListChanged();
+  });
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopWatching();
+    subscribed.clear();
+    onclose?.();
+  };
+}
+
+// ── WatchChanges ──
+// The App UIs can't receive resource notifications (hosts don't pass them on to the
+// iframe), so they long-poll this instead and re-fetch when a table they show changes.
+
+const WatchChangesInput = {
+  since: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("version from the previous call; omit to get the current version without waiting"),
+  tables: z.array(z.enum(CHANGE_TABLES)).min(1).optional().describe("Tables to watch (default: all)"),
+  waitSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(30)
+    .optional()
+    .describe("Seconds to wait for a change when none has happened since, 0-30 (default: 0, answer at once)"),
+};
+
+export function registerWatchChanges(server: McpServer) {
+  server.registerTool(
+    "WatchChanges",
+    {
+      title: "Watch Changes",
+      description:
+        "Report which tables (fans, engagement events, purchases, merchandise, promotions, event types) the server's tools have written since a version, optionally waiting up to 30 seconds for a write. Call without since to get the current version. Writes made outside this server process aren't seen.",
+      inputSchema: WatchChangesInput,
+      outputSchema: WatchChangesOutput.shape,
+      annotations: { readOnlyHint: true },
+    },
+    withToolErrors(async ({ since, tables = [...CHANGE_TABLES], waitSeconds = 0 }, extra): Promise<CallToolResult> => {
+      const changedTables = since === undefined ? [] : await waitForChange(since, tables, waitSeconds * 1000, extra.signal);
+      const result: WatchChangesResult = { version: currentVersion(), changedTables };
+      return jsonResult(result);
     })
   );
 }
+
+// ── Workflow prompts ──
+// The text lives in src/prompts.ts, shared with the UIs' quick-start buttons
+
+/** Prompt arguments arrive as strings, so numbers are parsed and range-checked here */
+function wholeNumberArg(min: number, max: number) {
+  return z
+    .string()
+    .regex(/^\d+$/, "must be a whole number")
+    .transform(Number)
+    .pipe(z.number().min(min).max(max));
+}
+
+const teamArg = completable(z.string().optional().describe(`Only this team's fans: ${TEAMS.join(", ")} (default: every team)`), (value) =>
+  TEAMS.filter((team) => team.toLowerCase().startsWith((value ?? "").toLowerCase()))
+);
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+export function registerWorkflowPrompts(server: McpServer) {
+  server.registerPrompt(
+    "conversion-campaign",
+    {
+      ...PROMPT_INFO["conversion-campaign"],
+      argsSchema: {
+        team: teamArg,
+        maxDiscountPercent: wholeNumberArg(1, 100)
+          .optional()
+          .describe(`Highest discount to offer, in percent (default ${DEFAULT_MAX_DISCOUNT_PERCENT})`),
+      },
+    },
+    (args) => userPrompt(PROMPT_INFO["conversion-campaign"].description, conversionCampaignPrompt(args))
+  );
+
+  server.registerPrompt(
+    "churn-rescue",
+    {
+      ...PROMPT_INFO["churn-rescue"],
+      argsSchema: {
+        daysDormant: wholeNumberArg(1, 3650)
+          .optional()
+          .describe(`Days without engagement that count as gone quiet (default ${DEFAULT_DAYS_DORMANT})`),
+        team: teamArg,
+      },
+    },
+    (args) => userPrompt(PROMPT_INFO["churn-rescue"].description, churnRescuePrompt(args))
+  );
+
+  server.registerPrompt(
+    "fan-briefing",
+    {
+      ...PROMPT_INFO["fan-briefing"],
+      argsSchema: { fanId: z.string().describe("The fan's ID (e.g. 'fan-001') or email") },
+    },
+    ({ fanId }) => {
+      const fan = db.getFanByIdOrEmail(fanId);
+      if (!fan) throw new McpError(ErrorCode.InvalidParams, `Fan not found: ${fanId}`);
+      return userPrompt(PROMPT_INFO["fan-briefing"].description, fanBriefingPrompt({ fanId: fan.fanId }));
+    }
+  );
+
+  server.registerPrompt(
+    "weekly-engagement-report",
+    { ...PROMPT_INFO["weekly-engagement-report"], argsSchema: { team: teamArg } },
+    (args) => userPrompt(PROMPT_INFO["weekly-engagement-report"].description, weeklyEngagementReportPrompt(args))
+  );
+}
@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { ToolError } from "./errors.js";
+
+// Cursor paging for the tools that return lists of fans or products. A cursor is an
+// opaque token holding the offset of the next page and a fingerprint of the arguments
+// that produced it (filters and sortBy), so it can't be replayed against a different
+// query by mistake. Pages are offsets into a stable order — every sort ends with an ID
+// tiebreak — so rows written between calls can shift a page by a few entries.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** The `limit` and `cursor` inputs shared by every paged tool */
+export const PageInputShape = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(`Maximum number of results per page (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`),
+  cursor: z
+    .string()
+    .optional()
+    .describe("nextCursor from a previous call, to fetch the following page. Pass the same filters and sortBy as that call."),
+};
+
+/** The arguments a cursor is tied to; undefined and null are the same */
+export type CursorQuery = Record<string, string | number | boolean | null | undefined>;
+
+function fingerprint(query: CursorQuery): string {
+  const entries = Object.keys(query)
+    .sort()
+    .map((key) => [key, query[key] ?? null]);
+  return createHash("sha256").update(JSON.stringify(entries)).digest("base64url").slice(0, 16);
+}
+
+export function encodeCursor(offset: number, query: CursorQuery): string {
+  return Buffer.from(JSON.stringify({ offset, query: fingerprint(query) })).toString("base64url");
+}
+
+/** Offset a cursor points at (0 without one). Throws a validation ToolError for a bad or mismatched cursor. */
+export function decodeCursor(cursor: string | undefined, query: CursorQuery): number {
+  if (cursor === undefined) return 0;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    parsed = null;
+  }
+  const token = parsed as { offset?: unknown; query?: unknown } | null;
+  if (!token || !Number.isInteger(token.offset) || (token.offset as number) < 0) {
+    throw new ToolError("validation", "Invalid cursor", { cursor });
+  }
+  if (token.query !== fingerprint(query)) {
+    throw new ToolError(
+      "validation",
+      "Cursor belongs to a different query; pass the same filters and sortBy as the call that returned it",
+      { cursor }
+    );
+  }
+  return token.offset as number;
+}
+
+export interface PageRequest {
+  limit?: number;
+  cursor?: string;
+  /** Arguments the cursor is tied to */
+  query: CursorQuery;
+}
+
+/** Resolves a page request to the rows to skip and take */
+export function pageWindow(request: PageRequest): { offset: number; limit: number } {
+  return { offset: decodeCursor(request.cursor, request.query), limit: request.limit ?? DEFAULT_PAGE_SIZE };
+}
+
+/** Cursor for the page after `offset`/`limit`, or null when it was the last one */
+export function nextCursor(offset: number, limit: number, total: number, query: CursorQuery): string | null {
+  return offset + limit < total ? encodeCursor(offset + limit, query) : null;
+}
+
+/** One page of an already sorted list */
+export function paginate<T>(items: T[], request: PageRequest): { items: T[]; nextCursor: string | null } {
+  const { offset, limit } = pageWindow(request);
+  return {
+    items: items.slice(offset, offset + limit),
+    nextCursor: nextCursor(offset, limit, items.length, request.query),
+  };
+}
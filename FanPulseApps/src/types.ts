@@ -1,34 +1,53 @@
-// Shared types used by both server-side tools and client-side UIs
+import { z } from "zod";
 
-export interface Fan {
-  fanId: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  favoriteTeam: string;
-  favoritePlayers: string;
-  joinDate: string;
-  city: string;
-  state: string;
-}
+// Shared types used by both server-side tools and client-side UIs. Types that appear in
+// tool results are declared as zod schemas, so the server's output schemas and the UIs'
+// result validation are the same definitions.
 
-export interface EngagementEvent {
-  eventId: string;
-  fanId: string;
-  eventType: string;
-  eventDate: string;
-  details: string;
-}
+export const FanSchema = z.object({
+  fanId: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  favoriteTeam: z.string(),
+  favoritePlayers: z.string(),
+  joinDate: z.string(),
+  city: z.string(),
+  state: z.string(),
+});
 
-export interface MerchProduct {
-  productId: string;
-  name: string;
-  category: string;
-  team: string;
-  player: string;
-  price: number;
-  inStock: boolean;
-}
+export type Fan = z.infer<typeof FanSchema>;
+
+/** Structured event data, checked against the event type's metadata fields */
+export const EventMetadataSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+export type EventMetadata = z.infer<typeof EventMetadataSchema>;
+
+export const EngagementEventSchema = z.object({
+  eventId: z.string(),
+  fanId: z.string(),
+  eventType: z.string(),
+  eventDate: z.string(),
+  /** A one-line summary of the metadata */
+  details: z.string(),
+  metadata: EventMetadataSchema,
+});
+
+export type EngagementEvent = z.infer<typeof EngagementEventSchema>;
+
+export const MerchProductSchema = z.object({
+  productId: z.string(),
+  name: z.string(),
+  category: z.string(),
+  team: z.string(),
+  player: z.string(),
+  price: z.number(),
+  inStock: z.boolean(),
+  stockQuantity: z.number(),
+  reorderThreshold: z.number(),
+});
+
+export type MerchProduct = z.infer<typeof MerchProductSchema>;
 
 export interface Purchase {
   purchaseId: string;
@@ -37,43 +56,178 @@ export interface Purchase {
   purchaseDate: string;
   quantity: number;
   totalPrice: number;
+  promotionId?: string | null;
 }
 
-export interface FanSegmentEntry {
-  fanId: string;
-  name: string;
-  email: string;
-  favoriteTeam: string;
-  engagementCount: number;
-  gamesAttended: number;
-  purchaseCount: number;
-  totalSpent: number;
-  lastEngagement: string;
-}
+export const PROMOTION_STATUSES = ["scheduled", "active", "expired", "cancelled"] as const;
 
-export interface SegmentGroup {
-  segment: string;
-  description: string;
-  count: number;
-  fans: FanSegmentEntry[];
-}
+export type PromotionStatus = (typeof PROMOTION_STATUSES)[number];
 
-export interface EngagementMetric {
-  fanId: string;
-  name: string;
-  favoriteTeam: string;
-  totalEvents: number;
-  eventTypes: number;
-  gamesAttended: number;
-  lastEngagement: string;
-  engagementScore: number;
-}
+export const PromotionSchema = z.object({
+  promotionId: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  discountPercent: z.number(),
+  targetSegment: z.string(),
+  targetTeam: z.string().nullable(),
+  /** Only fans who hadn't engaged for this many days when the promotion started, or null */
+  targetInactiveDays: z.number().nullable(),
+  productCategory: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  createdDate: z.string(),
+  cancelledDate: z.string().nullable(),
+  status: z.enum(PROMOTION_STATUSES),
+});
 
-export interface Recommendation {
-  product: MerchProduct;
-  relevanceScore: number;
-  reason: string;
-}
+export type Promotion = z.infer<typeof PromotionSchema>;
+
+/** A problem with a promotion's fields, reported by CreatePromotion and UpdatePromotion */
+export const ValidationIssueSchema = z.object({
+  field: z.string(),
+  message: z.string(),
+});
+
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+
+/** An existing promotion that overlaps a new or edited one */
+export const PromotionConflictSchema = PromotionSchema.pick({
+  promotionId: true,
+  name: true,
+  discountPercent: true,
+  targetSegment: true,
+  targetTeam: true,
+  productCategory: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+});
+
+export type PromotionConflict = z.infer<typeof PromotionConflictSchema>;
+
+export const FanSegmentEntrySchema = z.object({
+  fanId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  favoriteTeam: z.string(),
+  engagementCount: z.number(),
+  gamesAttended: z.number(),
+  purchaseCount: z.number(),
+  totalSpent: z.number(),
+  lastEngagement: z.string(),
+});
+
+export type FanSegmentEntry = z.infer<typeof FanSegmentEntrySchema>;
+
+export const SegmentGroupSchema = z.object({
+  segment: z.string(),
+  description: z.string(),
+  count: z.number(),
+  /** One page of the segment's fans; count is the segment's full size */
+  fans: z.array(FanSegmentEntrySchema),
+  /** Cursor for the segment's next page of fans, or null when this is the last */
+  nextCursor: z.string().nullable(),
+});
+
+export type SegmentGroup = z.infer<typeof SegmentGroupSchema>;
+
+/** Orders for a segment's fans: highest first, except name (A–Z) */
+export const SEGMENT_FAN_SORTS = ["engagementCount", "totalSpent", "purchaseCount", "lastEngagement", "name"] as const;
+
+export type SegmentFanSort = (typeof SEGMENT_FAN_SORTS)[number];
+
+/** Engagement levels derived from the engagement score, highest first */
+export const ENGAGEMENT_LEVELS = ["superfan", "regular", "casual", "dormant"] as const;
+
+export type EngagementLevel = (typeof ENGAGEMENT_LEVELS)[number];
+
+export const EngagementMetricSchema = z.object({
+  fanId: z.string(),
+  name: z.string(),
+  favoriteTeam: z.string(),
+  totalEvents: z.number(),
+  eventTypes: z.number(),
+  gamesAttended: z.number(),
+  lastEngagement: z.string(),
+  engagementScore: z.number(),
+  engagementLevel: z.enum(ENGAGEMENT_LEVELS),
+});
+
+export type EngagementMetric = z.infer<typeof EngagementMetricSchema>;
+
+/** Orders for the engagement metrics fan list: highest or most recent first, except name (A–Z) */
+export const FAN_METRIC_SORTS = ["engagementScore", "totalEvents", "gamesAttended", "lastEngagement", "name"] as const;
+
+export type FanMetricSort = (typeof FAN_METRIC_SORTS)[number];
+
+/** A fan as listed by SearchFans; lastEngagement is their latest event ever, or "never" */
+export const FanDirectoryEntrySchema = z.object({
+  fanId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  city: z.string(),
+  state: z.string(),
+  favoriteTeam: z.string(),
+  favoritePlayers: z.string(),
+  joinDate: z.string(),
+  lastEngagement: z.string(),
+  engagementScore: z.number(),
+  engagementLevel: z.enum(ENGAGEMENT_LEVELS),
+});
+
+export type FanDirectoryEntry = z.infer<typeof FanDirectoryEntrySchema>;
+
+/** Orders for SearchFans: score highest first, dates most recent first, text A–Z */
+export const FAN_DIRECTORY_SORTS = ["name", "engagementScore", "joinDate", "lastEngagement", "favoriteTeam", "city"] as const;
+
+export type FanDirectorySort = (typeof FAN_DIRECTORY_SORTS)[number];
+
+/** Per-type event counts in a lookback window; firstEvent/lastEvent are "none" without events */
+export const EngagementSummarySchema = z.object({
+  totalEvents: z.number(),
+  gamesAttended: z.number(),
+  appOpens: z.number(),
+  socialShares: z.number(),
+  contentViews: z.number(),
+  /** Events of every type logged in the window, including types without a field above */
+  eventCounts: z.record(z.string(), z.number()),
+  firstEvent: z.string(),
+  lastEvent: z.string(),
+});
+
+export type EngagementSummary = z.infer<typeof EngagementSummarySchema>;
+
+export const RECOMMENDATION_SIGNALS = [
+  "favorite_team",
+  "favorite_player",
+  "premium",
+  "entry_level",
+  "co_purchase",
+  "category_affinity",
+  "team_popularity",
+  "segment_popularity",
+  "low_stock",
+] as const;
+
+export type RecommendationSignal = (typeof RECOMMENDATION_SIGNALS)[number];
+
+/** One signal's contribution to a recommendation's relevance score */
+export const SignalScoreSchema = z.object({
+  signal: z.enum(RECOMMENDATION_SIGNALS),
+  score: z.number(),
+  reason: z.string(),
+});
+
+export type SignalScore = z.infer<typeof SignalScoreSchema>;
+
+export const RecommendationSchema = z.object({
+  product: MerchProductSchema,
+  relevanceScore: z.number(),
+  reason: z.string(),
+  signals: z.array(SignalScoreSchema),
+});
+
+export type Recommendation = z.infer<typeof RecommendationSchema>;
 
 export const SEGMENT_NAMES = [
   "superfans",
@@ -85,6 +239,11 @@ export const SEGMENT_NAMES = [
 
 export type SegmentName = (typeof SEGMENT_NAMES)[number];
 
+/** Valid CreatePromotion targets: any fan segment, or every fan */
+export const PROMOTION_SEGMENTS = ["all", ...SEGMENT_NAMES] as const;
+
+export type PromotionSegment = (typeof PROMOTION_SEGMENTS)[number];
+
 export const SEGMENT_DESCRIPTIONS: Record<SegmentName, string> = {
   superfans:
     "Highly engaged fans who also make purchases — your most valuable supporters",
@@ -106,6 +265,17 @@ export const SEGMENT_COLORS: Record<SegmentName, string> = {
   dormant_fans: "#ef4444",
 };
 
+export const TEAMS = ["Thunderbolts", "River Wolves", "Summit FC"] as const;
+
+export type TeamName = (typeof TEAMS)[number];
+
+export const TEAM_COLORS: Record<string, string> = {
+  Thunderbolts: "#6366f1",
+  "River Wolves": "#0d9488",
+  "Summit FC": "#f59e0b",
+};
+
+/** Built-in event types. More can be added at runtime with DefineEventType. */
 export const EVENT_TYPES = [
   "game_attendance",
   "app_open",
@@ -113,6 +283,110 @@ export const EVENT_TYPES = [
   "content_view",
 ] as const;
 
+export const EVENT_TYPE_COLORS: Record<string, string> = {
+  game_attendance: "#6366f1",
+  app_open: "#0d9488",
+  social_share: "#f59e0b",
+  content_view: "#ec4899",
+};
+
+// Colors for event types defined at runtime, picked by name so a type keeps its color
+const EXTRA_EVENT_COLORS = ["#8b5cf6", "#0ea5e9", "#84cc16", "#f97316", "#14b8a6", "#e11d48"];
+
+export function eventTypeColor(eventType: string): string {
+  if (EVENT_TYPE_COLORS[eventType]) return EVENT_TYPE_COLORS[eventType];
+  const hash = [...eventType].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
+  return EXTRA_EVENT_COLORS[hash % EXTRA_EVENT_COLORS.length];
+}
+
+export const METADATA_FIELD_TYPES = ["string", "number", "integer", "boolean"] as const;
+
+export type MetadataFieldType = (typeof METADATA_FIELD_TYPES)[number];
+
+/** One metadata field of an event type; a string field with options accepts only those values */
+export const MetadataFieldSchema = z.object({
+  name: z.string(),
+  type: z.enum(METADATA_FIELD_TYPES),
+  required: z.boolean(),
+  description: z.string(),
+  options: z.array(z.string()).optional(),
+});
+
+export type MetadataField = z.infer<typeof MetadataFieldSchema>;
+
+export const EventTypeSchema = z.object({
+  name: z.string(),
+  label: z.string(),
+  description: z.string(),
+  /** False for types added with DefineEventType */
+  builtIn: z.boolean(),
+  /** Points per event before decay, from the scoring config */
+  weight: z.number(),
+  /** Every type also accepts a free-text "note" */
+  fields: z.array(MetadataFieldSchema),
+});
+
+export type EventType = z.infer<typeof EventTypeSchema>;
+
+export const TREND_INTERVALS = ["day", "week", "month"] as const;
+
+export type TrendInterval = (typeof TREND_INTERVALS)[number];
+
+/** One time bucket of an engagement trend. Deltas compare with the previous bucket (null for the first). */
+export const TrendBucketSchema = z.object({
+  period: z.string(),
+  startDate: z.string(),
+  counts: z.record(z.string(), z.number()),
+  total: z.number(),
+  /** The bucket extends past the start or end of the window, so its counts cover only part of it */
+  partial: z.boolean(),
+  delta: z.number().nullable(),
+  deltaPercent: z.number().nullable(),
+});
+
+export type TrendBucket = z.infer<typeof TrendBucketSchema>;
+
+export const EngagementTrendSchema = z.object({
+  interval: z.enum(TREND_INTERVALS),
+  eventTypes: z.array(z.string()),
+  buckets: z.array(TrendBucketSchema),
+  /** Latest complete bucket vs. the one before it, per event type and overall */
+  periodOverPeriod: z.array(
+    z.object({
+      eventType: z.string(),
+      current: z.number(),
+      previous: z.number(),
+      delta: z.number(),
+      deltaPercent: z.number().nullable(),
+    })
+  ),
+});
+
+export type EngagementTrend = z.infer<typeof EngagementTrendSchema>;
+
+/** The scoring weights reported alongside every engagement score */
+export const ScoringModelSchema = z.object({
+  eventWeights: z.record(z.string(), z.number()),
+  defaultWeight: z.number(),
+  halfLifeDays: z.number(),
+  levelThresholds: z.object({ superfan: z.number(), regular: z.number() }),
+});
+
+export type ScoringModel = z.infer<typeof ScoringModelSchema>;
+
+/** Revenue, orders and conversions from a promotion's audience over one period */
+export const PeriodSummarySchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  orders: z.number(),
+  units: z.number(),
+  revenue: z.number(),
+  convertedFans: z.number(),
+  conversionRate: z.number(),
+});
+
+export type PeriodSummary = z.infer<typeof PeriodSummarySchema>;
+
 export const MERCH_CATEGORIES = [
   "Jersey",
   "Hat",
@@ -122,3 +396,413 @@ export const MERCH_CATEGORIES = [
   "Equipment",
   "Collectible",
 ] as const;
+
+// ── Tool errors ──
+
+/**
+ * Failed tool calls return isError: true with a JSON body of { code, error, ...details }.
+ * not_found: a fan, product or promotion doesn't exist. validation: the arguments are
+ * invalid. conflict: valid, but not allowed in the current state (overlaps, stock,
+ * already cancelled). internal: anything unexpected, e.g. a database error.
+ */
+export const ERROR_CODES = ["not_found", "validation", "conflict", "internal"] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export const ToolErrorBodySchema = z.looseObject({
+  code: z.enum(ERROR_CODES),
+  error: z.string(),
+});
+
+export type ToolErrorBody = z.infer<typeof ToolErrorBodySchema>;
+
+// ── Tool output schemas ──
+// Declared as each tool's outputSchema; results are checked against them by the SDK
+// before they're sent, and again by the UIs before rendering.
+
+export const GetFanProfileOutput = FanSchema.extend({
+  recentEngagements: z.array(
+    z.object({ type: z.string(), date: z.string(), details: z.string(), metadata: EventMetadataSchema })
+  ),
+  purchaseHistory: z.array(
+    z.object({
+      date: z.string(),
+      product: z.string(),
+      category: z.string(),
+      quantity: z.number(),
+      totalPrice: z.number(),
+      promotionId: z.string().nullable(),
+    })
+  ),
+  /** Covers the last lookbackDays days */
+  engagementSummary: EngagementSummarySchema.extend({
+    engagementScore: z.number(),
+    engagementLevel: z.enum(ENGAGEMENT_LEVELS),
+  }),
+  lookbackDays: z.number(),
+  scoring: ScoringModelSchema,
+});
+
+export type GetFanProfileResult = z.infer<typeof GetFanProfileOutput>;
+
+export const LogEngagementEventOutput = EngagementEventSchema.extend({
+  success: z.boolean(),
+});
+
+export type LogEngagementEventResult = z.infer<typeof LogEngagementEventOutput>;
+
+export const ListEventTypesOutput = z.object({
+  eventTypes: z.array(EventTypeSchema),
+});
+
+export type ListEventTypesResult = z.infer<typeof ListEventTypesOutput>;
+
+export const DefineEventTypeOutput = EventTypeSchema.extend({
+  success: z.boolean(),
+});
+
+export type DefineEventTypeResult = z.infer<typeof DefineEventTypeOutput>;
+
+export const IMPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/** A row that wasn't imported; line is where the record starts in the file */
+export const ImportRowErrorSchema = z.object({
+  line: z.number(),
+  sourceId: z.string().nullable(),
+  message: z.string(),
+});
+
+export type ImportRowError = z.infer<typeof ImportRowErrorSchema>;
+
+/** Row counts for a bulk import; with dryRun, imported counts the rows that would be */
+export const ImportReportSchema = z.object({
+  format: z.enum(IMPORT_FORMATS),
+  dryRun: z.boolean(),
+  totalRows: z.number(),
+  imported: z.number(),
+  /** Rows skipped because their sourceId was already imported, or repeated earlier in the file */
+  duplicates: z.number(),
+  failed: z.number(),
+  errors: z.array(ImportRowErrorSchema),
+});
+
+export type ImportReport = z.infer<typeof ImportReportSchema>;
+
+export const ImportEngagementEventsOutput = ImportReportSchema.extend({
+  /** Failed rows left out of errors to keep the result small */
+  errorsOmitted: z.number(),
+});
+
+export type ImportEngagementEventsResult = z.infer<typeof ImportEngagementEventsOutput>;
+
+export const GetFanEngagementMetricsOutput = z.object({
+  lookbackDays: z.number(),
+  /** Team the fans and trend were limited to, or null for every team */
+  team: z.string().nullable(),
+  scoring: ScoringModelSchema,
+  sortBy: z.enum(FAN_METRIC_SORTS),
+  /** Fans matching the query, across all pages */
+  totalFans: z.number(),
+  /** One page of fans in sortBy order. A single-fan query returns one entry, with its event breakdown in details. */
+  fans: z.array(EngagementMetricSchema.extend({ details: EngagementSummarySchema.optional() })),
+  nextCursor: z.string().nullable(),
+  /** Covers every matching fan, not just this page */
+  trend: EngagementTrendSchema,
+});
+
+export type GetFanEngagementMetricsResult = z.infer<typeof GetFanEngagementMetricsOutput>;
+
+export const SearchFansOutput = z.object({
+  sortBy: z.enum(FAN_DIRECTORY_SORTS),
+  /** Fans matching the filters, across all pages */
+  totalCount: z.number(),
+  fans: z.array(FanDirectoryEntrySchema),
+  nextCursor: z.string().nullable(),
+  /** Engagement scores and levels cover this many days, as in GetFanEngagementMetrics */
+  lookbackDays: z.number(),
+});
+
+export type SearchFansResult = z.infer<typeof SearchFansOutput>;
+
+export const CreateFanOutput = FanSchema.extend({
+  success: z.boolean(),
+});
+
+export type CreateFanResult = z.infer<typeof CreateFanOutput>;
+
+export const UpdateFanOutput = FanSchema.extend({
+  success: z.boolean(),
+  /** Fields whose values changed */
+  updatedFields: z.array(z.string()),
+});
+
+export type UpdateFanResult = z.infer<typeof UpdateFanOutput>;
+
+/** Everything stored about one fan, for data access requests */
+export const ExportFanDataOutput = z.object({
+  exportedAt: z.string(),
+  fan: FanSchema,
+  engagementEvents: z.array(EngagementEventSchema.omit({ fanId: true })),
+  purchases: z.array(
+    z.object({
+      purchaseId: z.string(),
+      productId: z.string(),
+      productName: z.string().nullable(),
+      category: z.string().nullable(),
+      purchaseDate: z.string(),
+      quantity: z.number(),
+      totalPrice: z.number(),
+      promotionId: z.string().nullable(),
+    })
+  ),
+});
+
+export type ExportFanDataResult = z.infer<typeof ExportFanDataOutput>;
+
+/** delete removes the fan and their history; anonymize keeps the history without the personal data */
+export const DELETE_FAN_MODES = ["delete", "anonymize"] as const;
+
+export type DeleteFanMode = (typeof DELETE_FAN_MODES)[number];
+
+export const DeleteFanOutput = z.object({
+  success: z.boolean(),
+  fanId: z.string(),
+  mode: z.enum(DELETE_FAN_MODES),
+  /** Events deleted, or for anonymize, events whose details were cleared */
+  engagementEvents: z.number(),
+  /** Purchases deleted, or for anonymize, purchases kept for revenue reporting */
+  purchases: z.number(),
+});
+
+export type DeleteFanResult = z.infer<typeof DeleteFanOutput>;
+
+/** Catalog orders; category sorts by category, then price. Relevance applies to text searches. */
+export const MERCH_SORTS = ["relevance", "category", "price_asc", "price_desc", "name", "stock"] as const;
+
+export type MerchSort = (typeof MERCH_SORTS)[number];
+
+export const ProductResultSchema = MerchProductSchema.extend({
+  /** In stock but at or below the reorder threshold */
+  lowStock: z.boolean(),
+});
+
+export type ProductResult = z.infer<typeof ProductResultSchema>;
+
+/** A query word that matched nothing as typed, and the indexed words searched for instead (none: no results) */
+export const SearchCorrectionSchema = z.object({
+  term: z.string(),
+  replacements: z.array(z.string()),
+});
+
+export type SearchCorrection = z.infer<typeof SearchCorrectionSchema>;
+
+export const SearchMerchandiseOutput = z.object({
+  /** The text query, or null for a filter-only search */
+  query: z.string().nullable(),
+  corrections: z.array(SearchCorrectionSchema),
+  /** Order actually used — relevance without a query falls back to category */
+  sortBy: z.enum(MERCH_SORTS),
+  /** Products on this page */
+  resultCount: z.number(),
+  /** Products matching the filters, across all pages */
+  totalCount: z.number(),
+  products: z.array(ProductResultSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export type SearchMerchandiseResult = z.infer<typeof SearchMerchandiseOutput>;
+
+export const GetMerchRecommendationsOutput = z.object({
+  fanId: z.string(),
+  favoriteTeam: z.string(),
+  favoritePlayers: z.string(),
+  engagementScore: z.number(),
+  engagementLevel: z.enum(ENGAGEMENT_LEVELS),
+  scoring: ScoringModelSchema,
+  signalWeights: z.record(z.enum(RECOMMENDATION_SIGNALS), z.number()),
+  recommendations: z.array(RecommendationSchema),
+});
+
+export type GetMerchRecommendationsResult = z.infer<typeof GetMerchRecommendationsOutput>;
+
+export const RecordPurchaseOutput = z.object({
+  success: z.boolean(),
+  purchaseId: z.string(),
+  fanId: z.string(),
+  productId: z.string(),
+  productName: z.string(),
+  category: z.string(),
+  purchaseDate: z.string(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  listPrice: z.number(),
+  discountPercent: z.number(),
+  totalPrice: z.number(),
+  promotion: z.object({ promotionId: z.string(), name: z.string() }).nullable(),
+  remainingStock: z.number(),
+  lowStock: z.boolean(),
+});
+
+export type RecordPurchaseResult = z.infer<typeof RecordPurchaseOutput>;
+
+export const AdjustInventoryOutput = z.object({
+  success: z.boolean(),
+  productId: z.string(),
+  name: z.string(),
+  previousQuantity: z.number(),
+  stockQuantity: z.number(),
+  reorderThreshold: z.number(),
+  lowStock: z.boolean(),
+});
+
+export type AdjustInventoryResult = z.infer<typeof AdjustInventoryOutput>;
+
+export const GetLowStockReportOutput = z.object({
+  productCount: z.number(),
+  outOfStockCount: z.number(),
+  products: z.array(
+    MerchProductSchema.pick({
+      productId: true,
+      name: true,
+      category: true,
+      team: true,
+      stockQuantity: true,
+      reorderThreshold: true,
+    }).extend({ outOfStock: z.boolean() })
+  ),
+});
+
+export type GetLowStockReportResult = z.infer<typeof GetLowStockReportOutput>;
+
+/**
+ * A created promotion, with promotionId and warnings about allowed overlaps — or, for a
+ * dry run, the draft with its validationErrors and conflicts (success is false if it
+ * would be rejected as invalid).
+ */
+export const CreatePromotionOutput = z.object({
+  success: z.boolean(),
+  dryRun: z.boolean().optional(),
+  promotionId: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  discountPercent: z.number().optional(),
+  targetSegment: z.string().optional(),
+  /** The team filter, or "all" */
+  targetTeam: z.string().optional(),
+  targetInactiveDays: z.number().nullable().optional(),
+  productCategory: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  estimatedReach: z.number().optional(),
+  warnings: z.array(z.string()).optional(),
+  validationErrors: z.array(ValidationIssueSchema).optional(),
+  conflicts: z.array(PromotionConflictSchema),
+});
+
+export type CreatePromotionResult = z.infer<typeof CreatePromotionOutput>;
+
+/** A stored promotion with its current audience size (null for unrecognized segments) */
+export const PromotionWithReachSchema = PromotionSchema.extend({
+  estimatedReach: z.number().nullable(),
+});
+
+export type PromotionWithReach = z.infer<typeof PromotionWithReachSchema>;
+
+export const ListPromotionsOutput = z.object({
+  statusFilter: z.string(),
+  resultCount: z.number(),
+  promotions: z.array(PromotionWithReachSchema),
+});
+
+export type ListPromotionsResult = z.infer<typeof ListPromotionsOutput>;
+
+export const GetPromotionOutput = PromotionWithReachSchema;
+
+export type GetPromotionResult = z.infer<typeof GetPromotionOutput>;
+
+export const UpdatePromotionOutput = PromotionWithReachSchema.extend({
+  success: z.boolean(),
+  /** Overlaps that were allowed with allowOverlap */
+  conflicts: z.array(PromotionConflictSchema),
+});
+
+export type UpdatePromotionResult = z.infer<typeof UpdatePromotionOutput>;
+
+export const CancelPromotionOutput = PromotionSchema.extend({
+  success: z.boolean(),
+});
+
+export type CancelPromotionResult = z.infer<typeof CancelPromotionOutput>;
+
+export const GetPromotionPerformanceOutput = z.object({
+  promotionId: z.string(),
+  name: z.string(),
+  status: z.enum(PROMOTION_STATUSES),
+  discountPercent: z.number(),
+  targetSegment: z.string(),
+  /** The team filter, or "all" */
+  targetTeam: z.string(),
+  productCategory: z.string(),
+  audienceSize: z.number(),
+  windowDays: z.number(),
+  promotion: PeriodSummarySchema,
+  baseline: PeriodSummarySchema,
+  uplift: z.object({
+    revenuePercent: z.number().nullable(),
+    ordersPercent: z.number().nullable(),
+    convertedFansPercent: z.number().nullable(),
+  }),
+  /** Day-aligned daily revenue so the two periods can be overlaid */
+  dailyRevenue: z.array(z.object({ day: z.number(), date: z.string(), promotion: z.number(), baseline: z.number() })),
+});
+
+export type GetPromotionPerformanceResult = z.infer<typeof GetPromotionPerformanceOutput>;
+
+export const GetFanSegmentsOutput = z.object({
+  teamFilter: z.string(),
+  sortBy: z.enum(SEGMENT_FAN_SORTS),
+  segments: z.array(SegmentGroupSchema),
+});
+
+export type GetFanSegmentsResult = z.infer<typeof GetFanSegmentsOutput>;
+
+/** What ExportData exports: one segment's fans, the engagement metrics fan list, or a merchandise search */
+export const EXPORT_SOURCES = ["segment", "engagement_metrics", "merchandise"] as const;
+
+export type ExportSource = (typeof EXPORT_SOURCES)[number];
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const ExportDataOutput = z.object({
+  exportId: z.string(),
+  /** fanpulse://exports/{exportId}.{format}; reading it runs the export again, so it always has current data */
+  uri: z.string(),
+  /** Suggested name for the downloaded file */
+  fileName: z.string(),
+  source: z.enum(EXPORT_SOURCES),
+  format: z.enum(EXPORT_FORMATS),
+  mimeType: z.string(),
+  columns: z.array(z.string()),
+  /** Rows in the export when it was created */
+  rowCount: z.number(),
+});
+
+export type ExportDataResult = z.infer<typeof ExportDataOutput>;
+
+/** Tables the server's tools write, as reported by the WatchChanges change feed */
+export const CHANGE_TABLES = ["Fans", "EngagementEvents", "Purchases", "Merchandise", "Promotions", "EventTypes"] as const;
+
+export type ChangeTable = (typeof CHANGE_TABLES)[number];
+
+export const WatchChangesOutput = z.object({
+  /** Pass as since on the next call */
+  version: z.number(),
+  /** Tables (of those asked about) changed after since; empty when nothing changed or since was omitted */
+  changedTables: z.array(z.enum(CHANGE_TABLES)),
+});
+
+export type WatchChangesResult = z.infer<typeof WatchChangesOutput>;
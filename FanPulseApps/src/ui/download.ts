@@ -0,0 +1,25 @@
+import type { App } from "@modelcontextprotocol/ext-apps";
+import { ReadResourceResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ExportDataOutput } from "../types.ts";
+import { parseToolResult, ToolResultError } from "./tool-result.ts";
+
+// "Download CSV" in the UIs: ExportData creates the export, the host proxies the read of
+// its fanpulse://exports/... resource, and the file is saved from a blob URL.
+
+/** Exports the ExportData arguments as CSV and saves the file. Throws ToolResultError if it can't. */
+export async function downloadCsv(app: App, args: Record<string, unknown>) {
+  const created = parseToolResult(
+    await app.callServerTool({ name: "ExportData", arguments: { ...args, format: "csv" } }),
+    ExportDataOutput
+  );
+  if (!app.getHostCapabilities()?.serverResources) {
+    throw new ToolResultError("internal", `This host can't fetch files from the server. The export is at ${created.uri}`);
+  }
+  const { contents } = await app.request({ method: "resources/read", params: { uri: created.uri } }, ReadResourceResultSchema);
+  const file = contents[0];
+  if (!file || !("text" in file)) throw new ToolResultError("internal", "The export came back empty");
+
+  const url = URL.createObjectURL(new Blob([file.text], { type: created.mimeType }));
+  Object.assign(document.createElement("a"), { href: url, download: created.fileName }).click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
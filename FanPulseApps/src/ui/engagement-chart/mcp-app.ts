@@ -1,55 +1,136 @@
 import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
 import { Chart, registerables } from "chart.js";
+import {
+  eventTypeColor,
+  GetFanEngagementMetricsOutput,
+  TEAM_COLORS,
+  type EngagementMetric,
+  type EngagementTrend,
+  type FanMetricSort,
+  type GetFanEngagementMetricsResult,
+  type ScoringModel,
+  type TrendInterval,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { downloadCsv } from "../download.ts";
+import { watchTables } from "../live-updates.ts";
+import { clearError, parseToolResult, renderError, showError } from "../tool-result.ts";
 import "../global.css";
 import "./styles.css";
 
 Chart.register(...registerables);
 
-interface FanMetric {
-  fanId: string;
-  name: string;
-  favoriteTeam: string;
-  totalEvents: number;
-  eventTypes: number;
-  gamesAttended: number;
-  lastEngagement: string;
-  engagementScore: number;
-}
-
 const chartCanvas = document.getElementById("engagement-chart") as HTMLCanvasElement;
 const fanList = document.getElementById("fan-list")!;
 const lookbackLabel = document.getElementById("lookback-label")!;
+const scoringNote = document.getElementById("scoring-note")!;
+const viewToggle = document.getElementById("view-toggle")!;
+const intervalField = document.getElementById("interval-field")!;
+const intervalSelect = document.getElementById("trend-interval") as HTMLSelectElement;
+const trendDeltas = document.getElementById("trend-deltas")!;
+
+type ChartView = "bar" | "line" | "area";
 
 let chart: Chart | null = null;
+let view: ChartView = "bar";
+let fans: EngagementMetric[] = [];
+let totalFans = 0;
+let sortBy: FanMetricSort = "engagementScore";
+let nextCursor: string | null = null;
+let trend: EngagementTrend | null = null;
+// Arguments of the call being shown, so changing the interval or loading more re-queries the same fans
+let toolArgs: Record<string, unknown> = {};
+let stopWatching: (() => void) | null = null;
 const app = new App({ name: "Engagement Chart", version: "1.0.0" });
 
+// GetFanEngagementMetrics' largest page
+const MAX_PAGE_SIZE = 200;
+
+app.ontoolinput = (params) => {
+  toolArgs = { ...(params.arguments ?? {}) };
+};
+
 // Render from tool result data sent by the host (avoids re-fetching)
-app.ontoolresult = (params) => {
-  const text = params.content
-    ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
-    .map((c) => c.text)
-    .join("");
-  if (text) {
-    try {
-      const data = JSON.parse(text);
-      lookbackLabel.textContent = `Last ${data.lookbackDays} days`;
-      if (data.fans) {
-        renderChart(data.fans);
-        renderFanList(data.fans);
-      } else if (data.metrics) {
-        // Single fan query — show as a single-entry list
-        renderChart([data.metrics]);
-        renderFanList([data.metrics]);
-      }
-    } catch { /* ignore parse errors */ }
+app.ontoolresult = (result) => {
+  try {
+    const data = parseToolResult(result, GetFanEngagementMetricsOutput);
+    clearError();
+    renderData(data);
+    stopWatching ??= watchTables(app, ["Fans", "EngagementEvents", "EventTypes"], refresh);
+  } catch (err) {
+    showError(err);
   }
 };
 
-const TEAM_COLORS: Record<string, string> = {
-  Thunderbolts: "#6366f1",
-  "River Wolves": "#0d9488",
-  "Summit FC": "#f59e0b",
-};
+// Re-query when events are logged or fans change, keeping the sort, interval and how many fans are loaded
+async function refresh() {
+  try {
+    const result = await app.callServerTool({
+      name: "GetFanEngagementMetrics",
+      arguments: { ...toolArgs, sortBy, limit: fans.length > 0 ? Math.min(fans.length, MAX_PAGE_SIZE) : undefined },
+    });
+    renderData(parseToolResult(result, GetFanEngagementMetricsOutput));
+  } catch {
+    // Keep showing what was loaded; the next change tries again
+  }
+}
+
+function renderData(data: GetFanEngagementMetricsResult) {
+  lookbackLabel.textContent = `Last ${data.lookbackDays} days${data.team ? ` · ${data.team}` : ""}`;
+  renderScoringNote(data.scoring);
+  fans = data.fans;
+  totalFans = data.totalFans;
+  sortBy = data.sortBy;
+  nextCursor = data.nextCursor;
+  trend = data.trend;
+  intervalSelect.value = trend.interval;
+  renderView();
+  renderFanList();
+}
+
+function renderView() {
+  viewToggle.querySelectorAll<HTMLButtonElement>(".view-btn").forEach((btn) => {
+    btn.classList.toggle("active", btn.dataset.view === view);
+  });
+  const showTrend = view !== "bar" && trend !== null;
+  intervalField.hidden = !showTrend;
+  trendDeltas.hidden = !showTrend;
+  if (showTrend) {
+    renderTrendChart(trend!, view === "area");
+    renderDeltas(trend!);
+  } else {
+    renderChart(fans);
+  }
+}
+
+viewToggle.addEventListener("click", (e) => {
+  const btn = (e.target as HTMLElement).closest<HTMLButtonElement>(".view-btn");
+  if (!btn) return;
+  view = btn.dataset.view as ChartView;
+  renderView();
+});
+
+intervalSelect.addEventListener("change", async () => {
+  intervalSelect.disabled = true;
+  try {
+    const result = await app.callServerTool({
+      name: "GetFanEngagementMetrics",
+      arguments: { ...toolArgs, interval: intervalSelect.value as TrendInterval },
+    });
+    const data = parseToolResult(result, GetFanEngagementMetricsOutput);
+    toolArgs = { ...toolArgs, interval: intervalSelect.value };
+    clearError();
+    // Only the trend changes; keep the fans already loaded
+    trend = data.trend;
+    renderView();
+  } catch (err) {
+    // Keep showing the current trend
+    if (trend) intervalSelect.value = trend.interval;
+    showError(err, "Couldn't change the interval");
+  } finally {
+    intervalSelect.disabled = false;
+  }
+});
 
 function getTextColor(): string {
   return getComputedStyle(document.documentElement).getPropertyValue("--color-text-secondary").trim() || "#6b7280";
@@ -59,7 +140,7 @@ function getGridColor(): string {
   return getComputedStyle(document.documentElement).getPropertyValue("--color-border-primary").trim() || "#e5e7eb";
 }
 
-function renderChart(fans: FanMetric[]) {
+function renderChart(fans: EngagementMetric[]) {
   const sorted = [...fans].sort((a, b) => b.engagementScore - a.engagementScore);
   const top = sorted.slice(0, 12);
 
@@ -102,7 +183,7 @@ function renderChart(fans: FanMetric[]) {
             afterBody: (items) => {
               const idx = items[0].dataIndex;
               const f = top[idx];
-              return [`Team: ${f.favoriteTeam}`, `Score: ${f.engagementScore}`, `Last: ${f.lastEngagement}`];
+              return [`Team: ${f.favoriteTeam}`, `Score: ${f.engagementScore} (${f.engagementLevel})`, `Last: ${f.lastEngagement}`];
             },
           },
         },
@@ -124,24 +205,162 @@ function renderChart(fans: FanMetric[]) {
   });
 }
 
-function renderFanList(fans: FanMetric[]) {
-  const sorted = [...fans].sort((a, b) => b.engagementScore - a.engagementScore);
+function formatEventType(eventType: string): string {
+  return eventType.replace(/_/g, " ");
+}
+
+function renderTrendChart(data: EngagementTrend, stacked: boolean) {
+  const textColor = getTextColor();
+  const gridColor = getGridColor();
+
+  if (chart) chart.destroy();
+
+  chart = new Chart(chartCanvas, {
+    type: "line",
+    data: {
+      labels: data.buckets.map((b) => (b.partial ? `${b.period}*` : b.period)),
+      datasets: data.eventTypes.map((eventType) => {
+        const color = eventTypeColor(eventType);
+        return {
+          label: formatEventType(eventType),
+          data: data.buckets.map((b) => b.counts[eventType] ?? 0),
+          borderColor: color,
+          backgroundColor: stacked ? color + "66" : color,
+          fill: stacked,
+          tension: 0.25,
+          pointRadius: data.buckets.length > 40 ? 0 : 3,
+        };
+      }),
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: { intersect: false, mode: "index" },
+      plugins: {
+        legend: { display: true, labels: { color: textColor, font: { size: 11 } } },
+        tooltip: {
+          callbacks: {
+            afterBody: (items) => {
+              const bucket = data.buckets[items[0].dataIndex];
+              const lines = [`Total: ${bucket.total}`];
+              if (bucket.delta !== null) lines.push(`vs. previous: ${formatDelta(bucket.delta, bucket.deltaPercent)}`);
+              if (bucket.partial) lines.push("Partial period");
+              return lines;
+            },
+          },
+        },
+      },
+      scales: {
+        x: {
+          ticks: { color: textColor, font: { size: 10 }, maxRotation: 0, autoSkip: true },
+          grid: { display: false },
+        },
+        y: {
+          stacked,
+          beginAtZero: true,
+          title: { display: true, text: "Events", color: textColor, font: { size: 11, weight: "bold" } },
+          ticks: { color: textColor, font: { size: 10 }, precision: 0 },
+          grid: { color: gridColor },
+        },
+      },
+    },
+  });
+}
+
+function formatDelta(delta: number, deltaPercent: number | null): string {
+  const sign = delta > 0 ? "+" : "";
+  return deltaPercent === null ? `${sign}${delta}` : `${sign}${delta} (${sign}${deltaPercent}%)`;
+}
+
+function renderDeltas(data: EngagementTrend) {
+  if (data.periodOverPeriod.length === 0) {
+    trendDeltas.innerHTML = '<p class="delta-empty">Not enough complete periods to compare yet.</p>';
+    return;
+  }
+  trendDeltas.innerHTML = `
+    <div class="delta-title">Latest complete ${data.interval} vs. the one before</div>
+    <div class="delta-chips">
+      ${data.periodOverPeriod
+        .map((d) => {
+          const direction = d.delta > 0 ? "up" : d.delta < 0 ? "down" : "flat";
+          return `<span class="delta-chip delta-${direction}">${escapeHtml(formatEventType(d.eventType))}: ${d.current} <small>${formatDelta(d.delta, d.deltaPercent)}</small></span>`;
+        })
+        .join("")}
+    </div>`;
+}
+
+// Fans arrive in the server's sortBy order, one page at a time
+function renderFanList() {
   fanList.innerHTML = `
+    ${toolArgs.fanId ? "" : `<div class="list-actions"><button class="download-btn" id="download-csv" title="All ${totalFans} fans">Download CSV</button></div>`}
+    <div id="page-error"></div>
     <table class="fan-table">
-      <thead><tr><th>Rank</th><th>Fan</th><th>Team</th><th>Events</th><th>Games</th><th>Score</th><th>Last Active</th></tr></thead>
+      <thead><tr><th>Rank</th><th>Fan</th><th>Team</th><th>Events</th><th>Games</th><th>Score</th><th>Level</th><th>Last Active</th></tr></thead>
       <tbody>
-        ${sorted.map((f, i) => `
+        ${fans.map((f, i) => `
           <tr>
             <td>${i + 1}</td>
-            <td><strong>${f.name}</strong></td>
-            <td>${f.favoriteTeam}</td>
+            <td><strong>${escapeHtml(f.name)}</strong></td>
+            <td>${escapeHtml(f.favoriteTeam)}</td>
             <td>${f.totalEvents}</td>
             <td>${f.gamesAttended}</td>
             <td><span class="score-badge">${f.engagementScore}</span></td>
-            <td>${f.lastEngagement}</td>
+            <td><span class="level-badge level-${escapeHtml(f.engagementLevel)}">${escapeHtml(f.engagementLevel)}</span></td>
+            <td>${escapeHtml(f.lastEngagement)}</td>
           </tr>`).join("")}
       </tbody>
-    </table>`;
+    </table>
+    <p class="page-status">Showing ${fans.length} of ${totalFans} fans</p>
+    ${nextCursor ? `<button class="load-more" id="load-more">Load more</button>` : ""}`;
+
+  fanList.querySelector<HTMLButtonElement>("#load-more")?.addEventListener("click", (e) => {
+    loadMoreFans(e.currentTarget as HTMLButtonElement);
+  });
+  fanList.querySelector<HTMLButtonElement>("#download-csv")?.addEventListener("click", (e) => {
+    downloadFans(e.currentTarget as HTMLButtonElement);
+  });
+}
+
+// Every fan in the list, not just the pages loaded, in the order shown
+async function downloadFans(button: HTMLButtonElement) {
+  button.disabled = true;
+  try {
+    const { lookbackDays, team } = toolArgs;
+    await downloadCsv(app, { source: "engagement_metrics", lookbackDays, team, sortBy });
+    document.getElementById("page-error")!.replaceChildren();
+  } catch (err) {
+    renderError(document.getElementById("page-error")!, err, "Couldn't download the CSV");
+  } finally {
+    button.disabled = false;
+  }
+}
+
+async function loadMoreFans(button: HTMLButtonElement) {
+  button.disabled = true;
+  button.textContent = "Loading…";
+  try {
+    const result = await app.callServerTool({
+      name: "GetFanEngagementMetrics",
+      arguments: { ...toolArgs, sortBy, cursor: nextCursor },
+    });
+    const data = parseToolResult(result, GetFanEngagementMetricsOutput);
+    fans = [...fans, ...data.fans];
+    nextCursor = data.nextCursor;
+    if (view === "bar") renderChart(fans);
+    renderFanList();
+  } catch (err) {
+    renderError(document.getElementById("page-error")!, err, "Couldn't load more fans");
+    button.disabled = false;
+    button.textContent = "Load more";
+  }
+}
+
+// Show how scores were computed so they can be compared across tools
+function renderScoringNote(model: ScoringModel) {
+  const weights = Object.entries(model.eventWeights)
+    .map(([type, points]) => `${type.replace(/_/g, " ")} ${points}`)
+    .join(" · ");
+  scoringNote.textContent = `Score = points per event (${weights}), halved every ${model.halfLifeDays} days`;
 }
 
 function handleHostContext(ctx: McpUiHostContext) {
@@ -0,0 +1,218 @@
+import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  GetFanProfileOutput,
+  SearchFansOutput,
+  type FanDirectoryEntry,
+  type FanDirectorySort,
+  type GetFanProfileResult,
+  type SearchFansResult,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { clearError, parseToolResult, renderError, showError } from "../tool-result.ts";
+import "../global.css";
+import "./styles.css";
+
+const fanList = document.getElementById("fan-list")!;
+const resultLabel = document.getElementById("result-label")!;
+const profilePanel = document.getElementById("profile-panel")!;
+
+// Sortable columns, in the server's sort order for each (see FAN_DIRECTORY_SORTS)
+const COLUMNS: { label: string; sort?: FanDirectorySort }[] = [
+  { label: "Fan", sort: "name" },
+  { label: "Team", sort: "favoriteTeam" },
+  { label: "City", sort: "city" },
+  { label: "Joined", sort: "joinDate" },
+  { label: "Last Active", sort: "lastEngagement" },
+  { label: "Score", sort: "engagementScore" },
+  { label: "Level" },
+];
+
+let fans: FanDirectoryEntry[] = [];
+let results: SearchFansResult | null = null;
+let selectedFanId: string | null = null;
+// Arguments of the search being shown, so sorting and "Load more" re-query the same fans
+let toolArgs: Record<string, unknown> = {};
+const app = new App({ name: "Fan Browser", version: "1.0.0" });
+
+app.ontoolinput = (params) => {
+  const { cursor: _cursor, ...args } = params.arguments ?? {};
+  toolArgs = args;
+};
+
+// Render from tool result data sent by the host (avoids re-fetching)
+app.ontoolresult = (result) => {
+  try {
+    showResults(parseToolResult(result, SearchFansOutput));
+    clearError();
+  } catch (err) {
+    showError(err);
+  }
+};
+
+function showResults(data: SearchFansResult) {
+  results = data;
+  fans = data.fans;
+  renderFanList();
+}
+
+async function sortBy(sort: FanDirectorySort) {
+  if (results?.sortBy === sort) return;
+  fanList.classList.add("loading");
+  try {
+    const result = await app.callServerTool({ name: "SearchFans", arguments: { ...toolArgs, sortBy: sort } });
+    const data = parseToolResult(result, SearchFansOutput);
+    toolArgs = { ...toolArgs, sortBy: sort };
+    clearError();
+    showResults(data);
+  } catch (err) {
+    showError(err, "Couldn't sort the fans");
+  } finally {
+    fanList.classList.remove("loading");
+  }
+}
+
+function renderFanList() {
+  if (!results) return;
+  resultLabel.textContent = `${results.totalCount} fan${results.totalCount !== 1 ? "s" : ""} found`;
+  if (fans.length === 0) {
+    fanList.innerHTML = `<p class="empty">No fans match these filters</p>`;
+    return;
+  }
+
+  const sorted = results.sortBy;
+  fanList.innerHTML = `
+    <div id="page-error"></div>
+    <table class="fan-table">
+      <thead><tr>
+        ${COLUMNS.map((c) =>
+          c.sort
+            ? `<th data-sort="${c.sort}" class="${c.sort === sorted ? "sorted" : ""}" title="Sort by ${c.label.toLowerCase()}">${c.label}${c.sort === sorted ? " ▾" : ""}</th>`
+            : `<th>${c.label}</th>`
+        ).join("")}
+      </tr></thead>
+      <tbody>
+        ${fans.map((f) => `
+          <tr data-fan="${escapeHtml(f.fanId)}" class="${f.fanId === selectedFanId ? "selected" : ""}">
+            <td><strong>${escapeHtml(f.name)}</strong><br><span class="fan-email">${escapeHtml(f.email)}</span></td>
+            <td>${escapeHtml(f.favoriteTeam)}</td>
+            <td>${escapeHtml(f.city)}, ${escapeHtml(f.state)}</td>
+            <td>${escapeHtml(f.joinDate)}</td>
+            <td>${escapeHtml(f.lastEngagement)}</td>
+            <td>${f.engagementScore}</td>
+            <td><span class="level-badge level-${escapeHtml(f.engagementLevel)}">${escapeHtml(f.engagementLevel)}</span></td>
+          </tr>`).join("")}
+      </tbody>
+    </table>
+    <p class="page-status">Showing ${fans.length} of ${results.totalCount}</p>
+    ${results.nextCursor ? `<button class="load-more" id="load-more">Load more</button>` : ""}`;
+
+  fanList.querySelectorAll<HTMLElement>("th[data-sort]").forEach((th) => {
+    th.addEventListener("click", () => sortBy(th.dataset.sort as FanDirectorySort));
+  });
+  fanList.querySelectorAll<HTMLTableRowElement>("tbody tr").forEach((row) => {
+    row.addEventListener("click", () => openProfile(row.dataset.fan!));
+  });
+  fanList.querySelector<HTMLButtonElement>("#load-more")?.addEventListener("click", (e) => {
+    loadMoreFans(e.currentTarget as HTMLButtonElement);
+  });
+}
+
+async function loadMoreFans(button: HTMLButtonElement) {
+  if (!results) return;
+  button.disabled = true;
+  button.textContent = "Loading…";
+  try {
+    const result = await app.callServerTool({
+      name: "SearchFans",
+      arguments: { ...toolArgs, sortBy: results.sortBy, cursor: results.nextCursor },
+    });
+    const data = parseToolResult(result, SearchFansOutput);
+    fans = [...fans, ...data.fans];
+    results = { ...results, nextCursor: data.nextCursor };
+    renderFanList();
+  } catch (err) {
+    renderError(document.getElementById("page-error")!, err, "Couldn't load more fans");
+    button.disabled = false;
+    button.textContent = "Load more";
+  }
+}
+
+// The profile comes from GetFanProfile, the same data the tool gives the model
+async function openProfile(fanId: string) {
+  selectedFanId = fanId;
+  fanList.querySelectorAll<HTMLTableRowElement>("tbody tr").forEach((row) => {
+    row.classList.toggle("selected", row.dataset.fan === fanId);
+  });
+  profilePanel.innerHTML = `<p class="profile-placeholder">Loading profile…</p>`;
+  try {
+    const result = await app.callServerTool({ name: "GetFanProfile", arguments: { fanIdentifier: fanId } });
+    const profile = parseToolResult(result, GetFanProfileOutput);
+    // Another row was clicked while this one loaded
+    if (selectedFanId !== fanId) return;
+    renderProfile(profile);
+    profilePanel.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  } catch (err) {
+    if (selectedFanId === fanId) renderError(profilePanel, err, "Couldn't load the profile");
+  }
+}
+
+function formatEventType(eventType: string): string {
+  return eventType.replace(/_/g, " ");
+}
+
+function renderProfile(profile: GetFanProfileResult) {
+  const summary = profile.engagementSummary;
+  const totalSpent = profile.purchaseHistory.reduce((sum, p) => sum + p.totalPrice, 0);
+  const stats = [
+    [summary.engagementScore, "Engagement score"],
+    [summary.totalEvents, "Events (90 days)"],
+    [summary.gamesAttended, "Games attended"],
+    [profile.purchaseHistory.length, "Purchases"],
+    [`$${totalSpent.toFixed(2)}`, "Total spent"],
+  ];
+
+  profilePanel.innerHTML = `
+    <div class="profile-header">
+      <span class="profile-name">${escapeHtml(profile.firstName)} ${escapeHtml(profile.lastName)}</span>
+      <span class="level-badge level-${escapeHtml(summary.engagementLevel)}">${escapeHtml(summary.engagementLevel)}</span>
+    </div>
+    <div class="profile-meta">
+      ${escapeHtml(profile.email)} · ${escapeHtml(profile.city)}, ${escapeHtml(profile.state)} · ${escapeHtml(profile.favoriteTeam)}
+      ${profile.favoritePlayers ? ` · Favorite players: ${escapeHtml(profile.favoritePlayers)}` : ""} · Joined ${escapeHtml(profile.joinDate)}
+    </div>
+    <div class="profile-stats">
+      ${stats.map(([value, label]) => `<div class="stat"><div class="stat-value">${escapeHtml(value)}</div><div class="stat-label">${label}</div></div>`).join("")}
+    </div>
+    <div class="profile-columns">
+      <div>
+        <div class="section-title">Recent engagement</div>
+        ${profile.recentEngagements.length === 0
+          ? `<p class="empty">No engagement yet</p>`
+          : `<table class="fan-table">
+              <tbody>
+                ${profile.recentEngagements.map((e) => `<tr><td>${escapeHtml(e.date)}</td><td>${escapeHtml(formatEventType(e.type))}</td><td>${escapeHtml(e.details ?? "")}</td></tr>`).join("")}
+              </tbody>
+            </table>`}
+      </div>
+      <div>
+        <div class="section-title">Purchases</div>
+        ${profile.purchaseHistory.length === 0
+          ? `<p class="empty">No purchases yet</p>`
+          : `<table class="fan-table">
+              <tbody>
+                ${profile.purchaseHistory.map((p) => `<tr><td>${escapeHtml(p.date)}</td><td>${escapeHtml(p.product)}${p.quantity > 1 ? ` × ${p.quantity}` : ""}</td><td>$${p.totalPrice.toFixed(2)}</td></tr>`).join("")}
+              </tbody>
+            </table>`}
+      </div>
+    </div>`;
+}
+
+function handleHostContext(ctx: McpUiHostContext) {
+  if (ctx.theme) applyDocumentTheme(ctx.theme);
+  if (ctx.styles?.variables) applyHostStyleVariables(ctx.styles.variables);
+  if (ctx.styles?.css?.fonts) applyHostFonts(ctx.styles.css.fonts);
+}
+
+app.onhostcontextchanged = handleHostContext;
+applyDocumentTheme(window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+app.connect().then(() => { const ctx = app.getHostContext(); if (ctx) handleHostContext(ctx); });
@@ -0,0 +1,332 @@
+import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import { fanBriefingPrompt, PROMPT_INFO } from "../../prompts.ts";
+import {
+  EVENT_TYPES,
+  eventTypeColor,
+  GetFanProfileOutput,
+  GetMerchRecommendationsOutput,
+  ListEventTypesOutput,
+  LogEngagementEventOutput,
+  type EventMetadata,
+  type ChangeTable,
+  type EventType,
+  type GetFanProfileResult,
+  type MetadataField,
+  type Recommendation,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { watchTables } from "../live-updates.ts";
+import { clearError, parseToolResult, renderError, showError, ToolResultError } from "../tool-result.ts";
+import "../global.css";
+import "./styles.css";
+
+const fanName = document.getElementById("fan-name")!;
+const fanLevel = document.getElementById("fan-level")!;
+const fanMeta = document.getElementById("fan-meta")!;
+const logForm = document.getElementById("log-form") as HTMLFormElement;
+const logType = document.getElementById("log-type") as HTMLSelectElement;
+const logFields = document.getElementById("log-fields")!;
+const logDetails = document.getElementById("log-details") as HTMLInputElement;
+const logDate = document.getElementById("log-date") as HTMLInputElement;
+const logSubmit = document.getElementById("log-submit") as HTMLButtonElement;
+const recommendBtn = document.getElementById("recommend-btn") as HTMLButtonElement;
+const briefingBtn = document.getElementById("briefing-btn") as HTMLButtonElement;
+const actionStatus = document.getElementById("action-status")!;
+const recommendations = document.getElementById("recommendations")!;
+const breakdown = document.getElementById("breakdown")!;
+const timeline = document.getElementById("timeline")!;
+const purchases = document.getElementById("purchases")!;
+const scoringNote = document.getElementById("scoring-note")!;
+
+const PURCHASE_COLOR = "#059669";
+
+let profile: GetFanProfileResult | null = null;
+// Registered event types from ListEventTypes; until they load, the log form offers the built-ins without fields
+let eventTypes: EventType[] = [];
+let stopWatching: (() => void) | null = null;
+const app = new App({ name: "Fan Profile", version: "1.0.0" });
+
+// Render from tool result data sent by the host (avoids re-fetching)
+app.ontoolresult = (result) => {
+  try {
+    renderProfile(parseToolResult(result, GetFanProfileOutput));
+    clearError();
+    stopWatching ??= watchTables(app, ["Fans", "EngagementEvents", "Purchases", "EventTypes"], refresh);
+  } catch (err) {
+    showError(err);
+  }
+};
+
+// Re-read what changed elsewhere, e.g. an event logged or a purchase recorded in the chat
+async function refresh(changed: ChangeTable[]) {
+  if (changed.includes("EventTypes")) await loadEventTypes();
+  if (!profile || changed.every((table) => table === "EventTypes")) return;
+  try {
+    await refreshProfile(profile.fanId);
+  } catch {
+    // Keep showing the profile; the next change tries again
+  }
+}
+
+function formatEventType(eventType: string): string {
+  return eventType.replace(/_/g, " ");
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+logType.innerHTML = EVENT_TYPES.map((t) => `<option value="${t}">${formatEventType(t)}</option>`).join("");
+logDate.value = today();
+
+async function loadEventTypes() {
+  try {
+    const result = await app.callServerTool({ name: "ListEventTypes", arguments: {} });
+    eventTypes = parseToolResult(result, ListEventTypesOutput).eventTypes;
+  } catch (err) {
+    renderError(actionStatus, err, "Couldn't load event types");
+    return;
+  }
+  const selected = logType.value;
+  logType.innerHTML = eventTypes.map((t) => `<option value="${escapeHtml(t.name)}">${escapeHtml(t.label)}</option>`).join("");
+  if (eventTypes.some((t) => t.name === selected)) logType.value = selected;
+  renderLogFields();
+  if (profile) renderBreakdown(profile);
+}
+
+function fieldInput(field: MetadataField): string {
+  const attrs = `class="select log-field" data-field="${escapeHtml(field.name)}" data-type="${field.type}" title="${escapeHtml(field.description)}" aria-label="${escapeHtml(field.name)}"`;
+  const placeholder = escapeHtml(`${field.name}${field.required ? "" : " (optional)"}`);
+  if (field.options || field.type === "boolean") {
+    const options = field.options ?? ["true", "false"];
+    return `<select ${attrs}>
+      <option value="">${placeholder}</option>
+      ${options.map((o) => `<option value="${escapeHtml(o)}">${escapeHtml(o)}</option>`).join("")}
+    </select>`;
+  }
+  const type = field.type === "string" ? "text" : "number";
+  const step = field.type === "number" ? ` step="any"` : "";
+  return `<input type="${type}"${step} ${attrs} placeholder="${placeholder}" ${field.required ? "required" : ""} />`;
+}
+
+// Inputs for the selected type's metadata fields
+function renderLogFields() {
+  const eventType = eventTypes.find((t) => t.name === logType.value);
+  logFields.innerHTML = (eventType?.fields ?? []).map(fieldInput).join("");
+}
+
+function readLogMetadata(): EventMetadata {
+  const metadata: EventMetadata = {};
+  logFields.querySelectorAll<HTMLInputElement | HTMLSelectElement>("[data-field]").forEach((input) => {
+    const value = input.value.trim();
+    if (!value) return;
+    const type = input.dataset.type;
+    metadata[input.dataset.field!] = type === "boolean" ? value === "true" : type === "string" ? value : Number(value);
+  });
+  const note = logDetails.value.trim();
+  if (note) metadata.note = note;
+  return metadata;
+}
+
+logType.addEventListener("change", renderLogFields);
+
+function renderProfile(data: GetFanProfileResult) {
+  profile = data;
+  fanName.textContent = `${data.firstName} ${data.lastName}`;
+  fanLevel.innerHTML = `<span class="level-badge level-${escapeHtml(data.engagementSummary.engagementLevel)}">${escapeHtml(data.engagementSummary.engagementLevel)}</span>`;
+  fanMeta.textContent = [
+    data.email,
+    `${data.city}, ${data.state}`,
+    data.favoriteTeam,
+    data.favoritePlayers ? `Favorite players: ${data.favoritePlayers}` : "",
+    `Joined ${data.joinDate}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  renderBreakdown(data);
+  renderTimeline(data);
+  renderPurchases(data);
+  scoringNote.textContent = `Score and breakdown cover the last ${data.lookbackDays} days; each event's points halve every ${data.scoring.halfLifeDays} days.`;
+}
+
+// Events per type in the lookback window, with the points each type is worth. Every
+// registered type gets a row; types logged but no longer registered follow.
+function renderBreakdown(data: GetFanProfileResult) {
+  const summary = data.engagementSummary;
+  const registered = eventTypes.length > 0 ? eventTypes.map((t) => t.name) : [...EVENT_TYPES];
+  const types = [...registered, ...Object.keys(summary.eventCounts).filter((t) => !registered.includes(t))];
+  const rows = types.map((type) => ({ type, count: summary.eventCounts[type] ?? 0 }));
+  const max = Math.max(1, ...rows.map((r) => r.count));
+  breakdown.innerHTML = `
+    <h2 class="section-title">Engagement breakdown</h2>
+    <p class="score-line">Score <strong>${summary.engagementScore}</strong> from ${summary.totalEvents} event${summary.totalEvents !== 1 ? "s" : ""}${summary.lastEvent !== "none" ? ` · last on ${escapeHtml(summary.lastEvent)}` : ""}</p>
+    ${rows
+      .map((r) => {
+        const points = data.scoring.eventWeights[r.type] ?? data.scoring.defaultWeight;
+        return `
+        <div class="breakdown-row">
+          <span>${escapeHtml(formatEventType(r.type))} <small class="timeline-date">${points} pt${points !== 1 ? "s" : ""}</small></span>
+          <div class="breakdown-bar"><div class="breakdown-fill" style="width: ${(r.count / max) * 100}%; background: ${eventTypeColor(r.type)}"></div></div>
+          <span class="breakdown-count">${r.count}</span>
+        </div>`;
+      })
+      .join("")}`;
+}
+
+// Recent events and purchases interleaved, newest first
+function renderTimeline(data: GetFanProfileResult) {
+  const items = [
+    ...data.recentEngagements.map((e) => ({
+      date: e.date,
+      color: eventTypeColor(e.type),
+      title: formatEventType(e.type),
+      details: e.details ?? "",
+    })),
+    ...data.purchaseHistory.map((p) => ({
+      date: p.date,
+      color: PURCHASE_COLOR,
+      title: `Bought ${p.product}${p.quantity > 1 ? ` × ${p.quantity}` : ""}`,
+      details: `$${p.totalPrice.toFixed(2)}`,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  timeline.innerHTML =
+    items.length === 0
+      ? `<li class="empty">No activity yet</li>`
+      : items
+          .map(
+            (item) => `
+        <li class="timeline-item" style="--dot: ${item.color}">
+          <div class="timeline-date">${escapeHtml(item.date)}</div>
+          <div><strong>${escapeHtml(item.title)}</strong></div>
+          ${item.details ? `<div class="timeline-details">${escapeHtml(item.details)}</div>` : ""}
+        </li>`
+          )
+          .join("");
+}
+
+function renderPurchases(data: GetFanProfileResult) {
+  if (data.purchaseHistory.length === 0) {
+    purchases.innerHTML = `<p class="empty">No purchases yet</p>`;
+    return;
+  }
+  const units = data.purchaseHistory.reduce((sum, p) => sum + p.quantity, 0);
+  const spent = data.purchaseHistory.reduce((sum, p) => sum + p.totalPrice, 0);
+  purchases.innerHTML = `
+    <table class="purchase-table">
+      <thead><tr><th>Date</th><th>Product</th><th class="num">Qty</th><th class="num">Total</th></tr></thead>
+      <tbody>
+        ${data.purchaseHistory
+          .map(
+            (p) => `
+          <tr>
+            <td>${escapeHtml(p.date)}</td>
+            <td>${escapeHtml(p.product)}${p.promotionId ? `<span class="promo-tag" title="${escapeHtml(p.promotionId)}">promo</span>` : ""}</td>
+            <td class="num">${p.quantity}</td>
+            <td class="num">$${p.totalPrice.toFixed(2)}</td>
+          </tr>`
+          )
+          .join("")}
+      </tbody>
+      <tfoot>
+        <tr><td colspan="2">${data.purchaseHistory.length} order${data.purchaseHistory.length !== 1 ? "s" : ""}</td><td class="num">${units}</td><td class="num">$${spent.toFixed(2)}</td></tr>
+      </tfoot>
+    </table>`;
+}
+
+// Re-read the profile so the timeline and score include what was just logged
+async function refreshProfile(fanId: string) {
+  const result = await app.callServerTool({ name: "GetFanProfile", arguments: { fanIdentifier: fanId } });
+  renderProfile(parseToolResult(result, GetFanProfileOutput));
+}
+
+logForm.addEventListener("submit", async (e) => {
+  e.preventDefault();
+  if (!profile) return;
+  const fanId = profile.fanId;
+  logSubmit.disabled = true;
+  try {
+    const result = await app.callServerTool({
+      name: "LogEngagementEvent",
+      arguments: { fanId, eventType: logType.value, metadata: readLogMetadata(), eventDate: logDate.value || undefined },
+    });
+    const data = parseToolResult(result, LogEngagementEventOutput);
+    actionStatus.innerHTML = `<span class="action-success">✅ Logged ${escapeHtml(formatEventType(data.eventType))} on ${escapeHtml(data.eventDate)}</span>`;
+    logDetails.value = "";
+    renderLogFields();
+    await refreshProfile(fanId);
+  } catch (err) {
+    renderError(actionStatus, err, "Couldn't log the event");
+  } finally {
+    logSubmit.disabled = false;
+  }
+});
+
+recommendBtn.addEventListener("click", async () => {
+  if (!profile) return;
+  recommendBtn.disabled = true;
+  try {
+    const result = await app.callServerTool({ name: "GetMerchRecommendations", arguments: { fanId: profile.fanId } });
+    const data = parseToolResult(result, GetMerchRecommendationsOutput);
+    actionStatus.replaceChildren();
+    renderRecommendations(data.recommendations);
+  } catch (err) {
+    renderError(actionStatus, err, "Couldn't get recommendations");
+  } finally {
+    recommendBtn.disabled = false;
+  }
+});
+
+briefingBtn.title = PROMPT_INFO["fan-briefing"].description;
+
+// Quick start: sends the fan-briefing prompt to the chat, which runs it with the tools
+briefingBtn.addEventListener("click", async () => {
+  if (!profile) return;
+  briefingBtn.disabled = true;
+  try {
+    const text = fanBriefingPrompt({ fanId: profile.fanId });
+    const result = await app.sendMessage({ role: "user", content: [{ type: "text", text }] });
+    if (result.isError) throw new ToolResultError("internal", "The host didn't accept the message");
+    actionStatus.replaceChildren();
+  } catch (err) {
+    renderError(actionStatus, err, "Couldn't start the fan briefing");
+  } finally {
+    briefingBtn.disabled = false;
+  }
+});
+
+function renderRecommendations(recs: Recommendation[]) {
+  recommendations.hidden = false;
+  recommendations.innerHTML = `
+    <h2 class="section-title">Recommended merch</h2>
+    ${recs.length === 0
+      ? `<p class="empty">Nothing to recommend right now</p>`
+      : `<div class="rec-list">
+          ${recs
+            .map(
+              (r) => `
+            <div class="rec-card">
+              <div class="rec-name">${escapeHtml(r.product.name)}</div>
+              <div class="rec-meta">$${r.product.price.toFixed(2)} · ${escapeHtml(r.product.category)} · score ${r.relevanceScore}</div>
+              <div class="rec-reason">${escapeHtml(r.reason)}</div>
+            </div>`
+            )
+            .join("")}
+        </div>`}`;
+}
+
+function handleHostContext(ctx: McpUiHostContext) {
+  if (ctx.theme) applyDocumentTheme(ctx.theme);
+  if (ctx.styles?.variables) applyHostStyleVariables(ctx.styles.variables);
+  if (ctx.styles?.css?.fonts) applyHostFonts(ctx.styles.css.fonts);
+}
+
+app.onhostcontextchanged = handleHostContext;
+applyDocumentTheme(window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+app.connect().then(() => {
+  const ctx = app.getHostContext();
+  if (ctx) handleHostContext(ctx);
+  // Hosts that can't take messages from the UI get no briefing button
+  briefingBtn.hidden = !app.getHostCapabilities()?.message;
+  loadEventTypes();
+});
@@ -1,26 +1,13 @@
 import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import { churnRescuePrompt, conversionCampaignPrompt, PROMPT_INFO, weeklyEngagementReportPrompt, type PromptName } from "../../prompts.ts";
+import { GetFanSegmentsOutput, type SegmentFanSort, type SegmentGroup } from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { downloadCsv } from "../download.ts";
+import { watchTables } from "../live-updates.ts";
+import { clearError, parseToolResult, renderError, showError, ToolResultError } from "../tool-result.ts";
 import "../global.css";
 import "./styles.css";
 
-interface FanEntry {
-  fanId: string;
-  name: string;
-  email: string;
-  favoriteTeam: string;
-  engagementCount: number;
-  gamesAttended: number;
-  purchaseCount: number;
-  totalSpent: number;
-  lastEngagement: string;
-}
-
-interface Segment {
-  segment: string;
-  description: string;
-  count: number;
-  fans: FanEntry[];
-}
-
 const SEGMENT_COLORS: Record<string, string> = {
   superfans: "#059669",
   engaged_no_purchase: "#6366f1",
@@ -48,24 +35,52 @@ const SEGMENT_LABELS: Record<string, string> = {
 const segmentsGrid = document.getElementById("segments-grid")!;
 const detailPanel = document.getElementById("detail-panel")!;
 const filterLabel = document.getElementById("filter-label")!;
+const quickStart = document.getElementById("quick-start")!;
 
+let segments: SegmentGroup[] = [];
+let sortBy: SegmentFanSort = "engagementCount";
+// Arguments of the call being shown, so "Load more" pages through the same fans
+let toolArgs: Record<string, unknown> = {};
+let stopWatching: (() => void) | null = null;
 const app = new App({ name: "Fan Segments", version: "1.0.0" });
 
+app.ontoolinput = (params) => {
+  toolArgs = { ...(params.arguments ?? {}) };
+};
+
 // Render from tool result data sent by the host (avoids re-fetching)
-app.ontoolresult = (params) => {
-  const text = params.content
-    ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
-    .map((c) => c.text)
-    .join("");
-  if (text) {
-    try {
-      const data = JSON.parse(text);
-      renderSegments(data.segments, data.teamFilter);
-    } catch { /* ignore parse errors */ }
+app.ontoolresult = (result) => {
+  try {
+    const data = parseToolResult(result, GetFanSegmentsOutput);
+    clearError();
+    segments = data.segments;
+    sortBy = data.sortBy;
+    renderSegments(data.teamFilter);
+    stopWatching ??= watchTables(app, ["Fans", "EngagementEvents", "Purchases"], refresh);
+  } catch (err) {
+    showError(err);
   }
 };
 
-function renderSegments(segments: Segment[], teamFilter: string) {
+// Re-query when fans, events or purchases change, keeping the open segment's panel open
+async function refresh() {
+  const open = segmentsGrid.querySelector(".segment-card.active")?.getAttribute("data-segment");
+  try {
+    const result = await app.callServerTool({ name: "GetFanSegments", arguments: { ...toolArgs, sortBy } });
+    const data = parseToolResult(result, GetFanSegmentsOutput);
+    segments = data.segments;
+    renderSegments(data.teamFilter);
+    const segment = segments.find((s) => s.segment === open);
+    if (segment) {
+      segmentsGrid.querySelector(`.segment-card[data-segment="${segment.segment}"]`)?.classList.add("active");
+      renderFanDetail(segment);
+    }
+  } catch {
+    // Keep showing what was loaded; the next change tries again
+  }
+}
+
+function renderSegments(teamFilter: string) {
   filterLabel.textContent = teamFilter === "all" ? "All Teams" : teamFilter;
 
   segmentsGrid.innerHTML = segments
@@ -74,10 +89,10 @@ function renderSegments(segments: Segment[], teamFilter: string) {
     <div class="segment-card" data-segment="${seg.segment}" style="--accent: ${SEGMENT_COLORS[seg.segment] ?? "#888"}">
       <div class="segment-header">
         <span class="segment-icon">${SEGMENT_ICONS[seg.segment] ?? "📊"}</span>
-        <span class="segment-name">${SEGMENT_LABELS[seg.segment] ?? seg.segment}</span>
+        <span class="segment-name">${escapeHtml(SEGMENT_LABELS[seg.segment] ?? seg.segment)}</span>
       </div>
       <div class="segment-count">${seg.count}</div>
-      <div class="segment-desc">${seg.description}</div>
+      <div class="segment-desc">${escapeHtml(seg.description)}</div>
     </div>
   `
     )
@@ -95,14 +110,18 @@ function renderSegments(segments: Segment[], teamFilter: string) {
   });
 }
 
-function renderFanDetail(segment: Segment) {
+function renderFanDetail(segment: SegmentGroup) {
   if (segment.fans.length === 0) {
     detailPanel.innerHTML = `<p class="detail-placeholder">No fans in this segment</p>`;
     return;
   }
 
   detailPanel.innerHTML = `
-    <h3 class="detail-title">${SEGMENT_LABELS[segment.segment] ?? segment.segment} — ${segment.count} fans</h3>
+    <div class="list-actions">
+      <h3 class="detail-title">${escapeHtml(SEGMENT_LABELS[segment.segment] ?? segment.segment)} — ${segment.count} fans</h3>
+      <button class="download-btn" id="download-csv" title="All ${segment.count} fans, with emails">Download CSV</button>
+    </div>
+    <div id="page-error"></div>
     <table class="fan-table">
       <thead>
         <tr><th>Name</th><th>Team</th><th>Engagements</th><th>Games</th><th>Purchases</th><th>Spent</th><th>Last Active</th></tr>
@@ -112,18 +131,98 @@ function renderFanDetail(segment: Segment) {
           .map(
             (f) => `
           <tr>
-            <td><strong>${f.name}</strong><br><span class="fan-email">${f.email}</span></td>
-            <td>${f.favoriteTeam}</td>
+            <td><strong>${escapeHtml(f.name)}</strong><br><span class="fan-email">${escapeHtml(f.email)}</span></td>
+            <td>${escapeHtml(f.favoriteTeam)}</td>
             <td>${f.engagementCount}</td>
             <td>${f.gamesAttended}</td>
             <td>${f.purchaseCount}</td>
             <td>$${f.totalSpent.toFixed(2)}</td>
-            <td>${f.lastEngagement}</td>
+            <td>${escapeHtml(f.lastEngagement)}</td>
           </tr>`
           )
           .join("")}
       </tbody>
-    </table>`;
+    </table>
+    <p class="page-status">Showing ${segment.fans.length} of ${segment.count}</p>
+    ${segment.nextCursor ? `<button class="load-more" id="load-more">Load more</button>` : ""}`;
+
+  detailPanel.querySelector<HTMLButtonElement>("#load-more")?.addEventListener("click", (e) => {
+    loadMoreFans(segment, e.currentTarget as HTMLButtonElement);
+  });
+  detailPanel.querySelector<HTMLButtonElement>("#download-csv")!.addEventListener("click", (e) => {
+    downloadSegment(segment, e.currentTarget as HTMLButtonElement);
+  });
+}
+
+// The whole segment, not just the pages loaded, in the order shown
+async function downloadSegment(segment: SegmentGroup, button: HTMLButtonElement) {
+  button.disabled = true;
+  try {
+    await downloadCsv(app, { source: "segment", segment: segment.segment, team: toolArgs.team, sortBy });
+    document.getElementById("page-error")!.replaceChildren();
+  } catch (err) {
+    renderError(document.getElementById("page-error")!, err, "Couldn't download the CSV");
+  } finally {
+    button.disabled = false;
+  }
+}
+
+async function loadMoreFans(segment: SegmentGroup, button: HTMLButtonElement) {
+  button.disabled = true;
+  button.textContent = "Loading…";
+  try {
+    const result = await app.callServerTool({
+      name: "GetFanSegments",
+      arguments: { ...toolArgs, segment: segment.segment, sortBy, cursor: segment.nextCursor },
+    });
+    const page = parseToolResult(result, GetFanSegmentsOutput).segments[0];
+    segment.fans = [...segment.fans, ...page.fans];
+    segment.nextCursor = page.nextCursor;
+    renderFanDetail(segment);
+  } catch (err) {
+    renderError(document.getElementById("page-error")!, err, "Couldn't load more fans");
+    button.disabled = false;
+    button.textContent = "Load more";
+  }
+}
+
+// Quick-start buttons send a workflow prompt to the chat, for the team being shown
+const QUICK_STARTS: Partial<Record<PromptName, (team: string | undefined) => string>> = {
+  "conversion-campaign": (team) => conversionCampaignPrompt({ team }),
+  "churn-rescue": (team) => churnRescuePrompt({ team }),
+  "weekly-engagement-report": (team) => weeklyEngagementReportPrompt({ team }),
+};
+
+function renderQuickStart() {
+  quickStart.innerHTML = `
+    <span class="quick-start-label">Quick start</span>
+    ${Object.keys(QUICK_STARTS)
+      .map((name) => {
+        const info = PROMPT_INFO[name as PromptName];
+        return `<button class="prompt-btn" data-prompt="${name}" title="${info.description}">${info.title}</button>`;
+      })
+      .join("")}
+    <div id="quick-start-error"></div>`;
+  quickStart.hidden = false;
+
+  quickStart.querySelectorAll<HTMLButtonElement>(".prompt-btn").forEach((button) => {
+    button.addEventListener("click", () => startWorkflow(button.dataset.prompt as PromptName, button));
+  });
+}
+
+async function startWorkflow(name: PromptName, button: HTMLButtonElement) {
+  const errorBox = document.getElementById("quick-start-error")!;
+  const team = typeof toolArgs.team === "string" ? toolArgs.team : undefined;
+  button.disabled = true;
+  try {
+    const result = await app.sendMessage({ role: "user", content: [{ type: "text", text: QUICK_STARTS[name]!(team) }] });
+    if (result.isError) throw new ToolResultError("internal", "The host didn't accept the message");
+    errorBox.replaceChildren();
+  } catch (err) {
+    renderError(errorBox, err, `Couldn't start the ${PROMPT_INFO[name].title.toLowerCase()}`);
+  } finally {
+    button.disabled = false;
+  }
 }
 
 function handleHostContext(ctx: McpUiHostContext) {
@@ -139,4 +238,6 @@ applyDocumentTheme(systemDark ? "dark" : "light");
 app.connect().then(() => {
   const ctx = app.getHostContext();
   if (ctx) handleHostContext(ctx);
+  // Hosts that can't take messages from the UI get no quick-start buttons
+  if (app.getHostCapabilities()?.message) renderQuickStart();
 });
@@ -0,0 +1,16 @@
+// Escaping for the UIs' innerHTML templates. Names, descriptions and event details come from
+// tool input and imported files, so any text from the server goes through escapeHtml before
+// it's put into markup, whether as element content or as a quoted attribute value.
+
+const ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/** `value` as text that's safe inside an HTML element or a quoted attribute */
+export function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, (c) => ENTITIES[c]);
+}
@@ -0,0 +1,48 @@
+import type { App } from "@modelcontextprotocol/ext-apps";
+import { WatchChangesOutput, type ChangeTable } from "../types.ts";
+import { parseToolResult } from "./tool-result.ts";
+
+// Keeps an open UI current. Hosts don't pass resource notifications on to the iframe, so
+// the UI long-polls WatchChanges and re-fetches when one of the tables it shows changes.
+
+/** Seconds each WatchChanges call waits for a change; kept under the host's request timeout */
+const WAIT_SECONDS = 25;
+
+/** Pause after a failed call, so a server that's down isn't called in a tight loop */
+const RETRY_DELAY_MS = 10_000;
+
+/**
+ * Calls onChange with the changed tables whenever the server's tools write one of `tables`,
+ * waiting for it to finish before watching again. Runs until the returned function is called.
+ */
+export function watchTables(
+  app: App,
+  tables: ChangeTable[],
+  onChange: (changed: ChangeTable[]) => void | Promise<void>
+): () => void {
+  let stopped = false;
+
+  const watch = async (args: Record<string, unknown>) => {
+    const result = await app.callServerTool({ name: "WatchChanges", arguments: { tables, ...args } });
+    return parseToolResult(result, WatchChangesOutput);
+  };
+
+  (async () => {
+    let since: number | undefined;
+    while (!stopped) {
+      try {
+        const { version, changedTables } = await watch(
+          since === undefined ? {} : { since, waitSeconds: WAIT_SECONDS }
+        );
+        since = version;
+        if (!stopped && changedTables.length > 0) await onChange(changedTables);
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  })();
+
+  return () => {
+    stopped = true;
+  };
+}
@@ -1,36 +1,28 @@
 import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  GetMerchRecommendationsOutput,
+  type GetMerchRecommendationsResult,
+  type RecommendationSignal,
+  type SignalScore,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { clearError, parseToolResult, showError } from "../tool-result.ts";
 import "../global.css";
 import "./styles.css";
 
-interface Recommendation {
-  product: {
-    productId: string;
-    name: string;
-    category: string;
-    team: string;
-    player: string;
-    price: number;
-    inStock: boolean;
-  };
-  relevanceScore: number;
-  reason: string;
-}
-
 const fanInfo = document.getElementById("fan-info")!;
 const recsGrid = document.getElementById("recs-grid")!;
 
 const app = new App({ name: "Merch Recommendations", version: "1.0.0" });
 
 // Render from tool result data sent by the host (avoids re-fetching)
-app.ontoolresult = (params) => {
-  const text = params.content
-    ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
-    .map((c) => c.text)
-    .join("");
-  if (text) {
-    try {
-      renderRecommendations(JSON.parse(text));
-    } catch { /* ignore parse errors */ }
+app.ontoolresult = (result) => {
+  try {
+    const data = parseToolResult(result, GetMerchRecommendationsOutput);
+    clearError();
+    renderRecommendations(data);
+  } catch (err) {
+    showError(err);
   }
 };
 
@@ -39,17 +31,35 @@ const CATEGORY_ICONS: Record<string, string> = {
   Apparel: "🧥", Equipment: "⚽", Collectible: "🏆",
 };
 
-function renderRecommendations(data: {
-  fanId: string;
-  favoriteTeam: string;
-  favoritePlayers: string;
-  engagementLevel: string;
-  recommendations: Recommendation[];
-}) {
+const SIGNAL_LABELS: Record<RecommendationSignal, string> = {
+  favorite_team: "Team",
+  favorite_player: "Player",
+  premium: "Premium",
+  entry_level: "Entry level",
+  co_purchase: "Also bought",
+  category_affinity: "Category",
+  team_popularity: "Team favorite",
+  segment_popularity: "Segment favorite",
+  low_stock: "Low stock",
+};
+
+// One row per signal: its share of the total score as a bar, then the explanation
+function renderSignal(sig: SignalScore, total: number) {
+  const width = total > 0 ? Math.min(100, Math.round((Math.abs(sig.score) / total) * 100)) : 0;
+  return `
+    <li class="signal ${sig.score < 0 ? "signal-negative" : ""}" title="${escapeHtml(sig.reason)}">
+      <span class="signal-label">${escapeHtml(SIGNAL_LABELS[sig.signal] ?? sig.signal)}</span>
+      <span class="signal-bar"><span class="signal-fill" style="width: ${width}%"></span></span>
+      <span class="signal-points">${sig.score > 0 ? "+" : ""}${sig.score}</span>
+      <span class="signal-reason">${escapeHtml(sig.reason)}</span>
+    </li>`;
+}
+
+function renderRecommendations(data: GetMerchRecommendationsResult) {
   fanInfo.innerHTML = `
-    <strong>${data.fanId}</strong> · ${data.favoriteTeam} · 
-    <span class="level-badge level-${data.engagementLevel}">${data.engagementLevel}</span> ·
-    Favorites: ${data.favoritePlayers}
+    <strong>${escapeHtml(data.fanId)}</strong> · ${escapeHtml(data.favoriteTeam)} · 
+    <span class="level-badge level-${escapeHtml(data.engagementLevel)}">${escapeHtml(data.engagementLevel)}</span> (score ${data.engagementScore}) ·
+    Favorites: ${escapeHtml(data.favoritePlayers)}
   `;
 
   if (data.recommendations.length === 0) {
@@ -64,9 +74,9 @@ function renderRecommendations(data: {
       <div class="rec-rank">#${i + 1}</div>
       <div class="rec-icon">${CATEGORY_ICONS[rec.product.category] ?? "📦"}</div>
       <div class="rec-body">
-        <div class="rec-name">${rec.product.name}</div>
-        <div class="rec-meta">${rec.product.team} · ${rec.product.category}${rec.product.player ? ` · ${rec.product.player}` : ""}</div>
-        <div class="rec-reason">${rec.reason}</div>
+        <div class="rec-name">${escapeHtml(rec.product.name)}</div>
+        <div class="rec-meta">${escapeHtml(rec.product.team)} · ${escapeHtml(rec.product.category)}${rec.product.player ? ` · ${escapeHtml(rec.product.player)}` : ""}</div>
+        <ul class="rec-signals">${rec.signals.map((sig) => renderSignal(sig, rec.relevanceScore)).join("")}</ul>
       </div>
       <div class="rec-right">
         <div class="rec-price">$${rec.product.price.toFixed(2)}</div>
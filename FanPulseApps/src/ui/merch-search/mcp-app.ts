@@ -1,82 +1,212 @@
 import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  RecordPurchaseOutput,
+  SearchMerchandiseOutput,
+  type MerchSort,
+  type ProductResult,
+  type SearchMerchandiseResult,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { clearError, parseToolResult, renderError, showError } from "../tool-result.ts";
 import "../global.css";
 import "./styles.css";
 
-interface Product {
-  productId: string;
-  name: string;
-  category: string;
-  team: string;
-  player: string;
-  price: number;
-  inStock: boolean;
-}
-
+const searchInput = document.getElementById("search") as HTMLInputElement;
 const teamSelect = document.getElementById("filter-team") as HTMLSelectElement;
 const categorySelect = document.getElementById("filter-category") as HTMLSelectElement;
 const sortSelect = document.getElementById("sort") as HTMLSelectElement;
 const productGrid = document.getElementById("product-grid")!;
 const resultsInfo = document.getElementById("results-info")!;
+const fanInput = document.getElementById("buy-fan") as HTMLInputElement;
+const purchaseStatus = document.getElementById("purchase-status")!;
+const pageControls = document.getElementById("page-controls")!;
 
-let allProducts: Product[] = [];
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+
+let products: ProductResult[] = [];
+let results: SearchMerchandiseResult | null = null;
+// Arguments of the original call; the search box and selects refine them
+let toolArgs: Record<string, unknown> = {};
+// Arguments of the search being shown, so "Load more" continues it
+let searchArgs: Record<string, unknown> = {};
+// Left unset, the server picks: relevance for a text search, category otherwise
+let sortBy: MerchSort | undefined;
+let searchTimer: ReturnType<typeof setTimeout> | undefined;
+// Only the latest search may render; slower earlier ones are dropped
+let searchSeq = 0;
 const app = new App({ name: "Merch Search", version: "1.0.0" });
 
+app.ontoolinput = (params) => {
+  const { cursor: _cursor, ...args } = params.arguments ?? {};
+  toolArgs = args;
+  searchArgs = args;
+  searchInput.value = typeof args.query === "string" ? args.query : "";
+  sortBy = typeof args.sortBy === "string" ? (args.sortBy as MerchSort) : undefined;
+};
+
 // Render from tool result data sent by the host (avoids re-fetching)
-app.ontoolresult = (params) => {
-  const text = params.content
-    ?.filter((c): c is { type: "text"; text: string } => c.type === "text")
-    .map((c) => c.text)
-    .join("");
-  if (text) {
-    try {
-      const data = JSON.parse(text);
-      allProducts = data.products;
-      populateFilters(allProducts);
-      applyFilters();
-    } catch { /* ignore parse errors */ }
+app.ontoolresult = (result) => {
+  try {
+    showResults(parseToolResult(result, SearchMerchandiseOutput));
+    clearError();
+  } catch (err) {
+    showError(err);
   }
 };
 
+function showResults(data: SearchMerchandiseResult) {
+  results = data;
+  products = data.products;
+  sortSelect.value = data.sortBy;
+  populateFilters(products);
+  renderProducts();
+}
+
+/** The original call's arguments with the search box and selects applied */
+function currentArgs(): Record<string, unknown> {
+  const args: Record<string, unknown> = { ...toolArgs, query: searchInput.value.trim() || undefined, sortBy };
+  if (teamSelect.value) args.team = teamSelect.value;
+  if (categorySelect.value) {
+    args.categories = [categorySelect.value];
+    delete args.category;
+  }
+  return args;
+}
+
+async function runSearch() {
+  clearTimeout(searchTimer);
+  const seq = ++searchSeq;
+  const args = currentArgs();
+  productGrid.classList.add("loading");
+  try {
+    const result = await app.callServerTool({ name: "SearchMerchandise", arguments: args });
+    const data = parseToolResult(result, SearchMerchandiseOutput);
+    if (seq !== searchSeq) return;
+    searchArgs = args;
+    clearError();
+    showResults(data);
+  } catch (err) {
+    if (seq === searchSeq) showError(err, "Search failed");
+  } finally {
+    if (seq === searchSeq) productGrid.classList.remove("loading");
+  }
+}
+
 const CATEGORY_ICONS: Record<string, string> = {
   Jersey: "👕", Hat: "🧢", Accessory: "🧣", Drinkware: "☕",
   Apparel: "🧥", Equipment: "⚽", Collectible: "🏆",
 };
 
-function renderProducts(products: Product[]) {
-  resultsInfo.textContent = `${products.length} product${products.length !== 1 ? "s" : ""} found`;
+/** The query as searched, with misspelt words replaced by their closest match */
+function correctedQuery(data: SearchMerchandiseResult): string | null {
+  if (!data.query || data.corrections.length === 0) return null;
+  const replaced = new Map(data.corrections.map((c) => [c.term, c.replacements[0]]));
+  return data.query.toLowerCase().replace(/[\p{L}\p{N}]+/gu, (word) => replaced.get(word) ?? word);
+}
+
+function renderResultsInfo() {
+  if (!results) return;
+  const unmatched = results.corrections.filter((c) => c.replacements.length === 0).map((c) => `"${c.term}"`);
+  const corrected = correctedQuery(results);
+  const count = `${results.totalCount} product${results.totalCount !== 1 ? "s" : ""} found`;
+  resultsInfo.textContent =
+    unmatched.length > 0
+      ? `No products match ${unmatched.join(", ")}`
+      : corrected
+        ? `${count} · showing results for "${corrected}"`
+        : count;
+}
+
+function renderProducts() {
+  renderResultsInfo();
 
   productGrid.innerHTML = products
     .map(
       (p) => `
     <div class="product-card ${!p.inStock ? "out-of-stock" : ""}">
       <div class="product-icon">${CATEGORY_ICONS[p.category] ?? "📦"}</div>
-      <div class="product-name">${p.name}</div>
-      <div class="product-meta">${p.team} · ${p.category}${p.player ? ` · ${p.player}` : ""}</div>
+      <div class="product-name">${escapeHtml(p.name)}</div>
+      <div class="product-meta">${escapeHtml(p.team)} · ${escapeHtml(p.category)}${p.player ? ` · ${escapeHtml(p.player)}` : ""}</div>
       <div class="product-price">$${p.price.toFixed(2)}</div>
-      ${!p.inStock ? '<div class="product-badge">Out of Stock</div>' : ""}
+      ${!p.inStock ? '<div class="product-badge">Out of Stock</div>' : p.lowStock ? `<div class="product-badge low-stock">Only ${p.stockQuantity} left</div>` : ""}
+      <button class="buy-btn" data-id="${escapeHtml(p.productId)}" ${!p.inStock || !fanInput.value.trim() ? "disabled" : ""}>Buy for fan</button>
     </div>`
     )
     .join("");
+
+  productGrid.querySelectorAll<HTMLButtonElement>(".buy-btn").forEach((btn) => {
+    btn.addEventListener("click", () => buyForFan(btn.dataset.id!, btn));
+  });
+  renderPageControls();
 }
 
-function applyFilters() {
-  let filtered = [...allProducts];
-  const teamVal = teamSelect.value;
-  const catVal = categorySelect.value;
-  if (teamVal) filtered = filtered.filter((p) => p.team === teamVal);
-  if (catVal) filtered = filtered.filter((p) => p.category === catVal);
+function renderPageControls() {
+  pageControls.innerHTML = results?.nextCursor ? `<button class="load-more" id="load-more">Load more</button>` : "";
+  pageControls.querySelector<HTMLButtonElement>("#load-more")?.addEventListener("click", (e) => {
+    loadMoreProducts(e.currentTarget as HTMLButtonElement);
+  });
+}
 
-  const sortVal = sortSelect.value;
-  if (sortVal === "price-asc") filtered.sort((a, b) => a.price - b.price);
-  else if (sortVal === "price-desc") filtered.sort((a, b) => b.price - a.price);
-  else if (sortVal === "name") filtered.sort((a, b) => a.name.localeCompare(b.name));
+async function loadMoreProducts(button: HTMLButtonElement) {
+  if (!results) return;
+  const seq = searchSeq;
+  button.disabled = true;
+  button.textContent = "Loading…";
+  try {
+    const result = await app.callServerTool({
+      name: "SearchMerchandise",
+      arguments: { ...searchArgs, cursor: results.nextCursor },
+    });
+    const data = parseToolResult(result, SearchMerchandiseOutput);
+    // A new search replaced the results while this page loaded
+    if (seq !== searchSeq) return;
+    products = [...products, ...data.products];
+    results = { ...results, nextCursor: data.nextCursor };
+    populateFilters(data.products);
+    renderProducts();
+  } catch (err) {
+    renderError(pageControls, err, "Couldn't load more products");
+    button.disabled = false;
+    button.textContent = "Load more";
+    pageControls.append(button);
+  }
+}
 
-  renderProducts(filtered);
+// Record a purchase through the server so stock checks and promotion pricing apply
+async function buyForFan(productId: string, button: HTMLButtonElement) {
+  const fanId = fanInput.value.trim();
+  if (!fanId) return;
+  button.disabled = true;
+  try {
+    const result = await app.callServerTool({ name: "RecordPurchase", arguments: { fanId, productId } });
+    const data = parseToolResult(result, RecordPurchaseOutput);
+    const discount = data.promotion
+      ? ` with ${data.discountPercent}% off from "${escapeHtml(data.promotion.name)}" (list $${data.listPrice.toFixed(2)})`
+      : "";
+    purchaseStatus.innerHTML = `<span class="purchase-success">✅ ${escapeHtml(data.productName)} purchased for ${escapeHtml(data.fanId)}: $${data.totalPrice.toFixed(2)}${discount}</span>`;
+    // Reflect the new stock level without re-running the search
+    const product = products.find((p) => p.productId === productId);
+    if (product) {
+      product.stockQuantity = data.remainingStock;
+      product.inStock = data.remainingStock > 0;
+      product.lowStock = data.lowStock;
+    }
+  } catch (err) {
+    renderError(purchaseStatus, err, "Failed to record purchase");
+  } finally {
+    button.disabled = false;
+    renderProducts();
+  }
 }
 
-function populateFilters(products: Product[]) {
-  const teams = [...new Set(products.map((p) => p.team))].sort();
-  const categories = [...new Set(products.map((p) => p.category))].sort();
+// Adds options for any teams and categories not already listed
+function populateFilters(products: ProductResult[]) {
+  const listed = (select: HTMLSelectElement) => new Set([...select.options].map((o) => o.value));
+  const knownTeams = listed(teamSelect);
+  const knownCategories = listed(categorySelect);
+  const teams = [...new Set(products.map((p) => p.team))].filter((t) => !knownTeams.has(t)).sort();
+  const categories = [...new Set(products.map((p) => p.category))].filter((c) => !knownCategories.has(c)).sort();
 
   teams.forEach((t) => {
     const opt = document.createElement("option");
@@ -90,9 +220,20 @@ function populateFilters(products: Product[]) {
   });
 }
 
-teamSelect.addEventListener("change", applyFilters);
-categorySelect.addEventListener("change", applyFilters);
-sortSelect.addEventListener("change", applyFilters);
+searchInput.addEventListener("input", () => {
+  clearTimeout(searchTimer);
+  searchTimer = setTimeout(runSearch, SEARCH_DELAY_MS);
+});
+searchInput.addEventListener("keydown", (e) => {
+  if (e.key === "Enter") runSearch();
+});
+teamSelect.addEventListener("change", runSearch);
+categorySelect.addEventListener("change", runSearch);
+sortSelect.addEventListener("change", () => {
+  sortBy = sortSelect.value as MerchSort;
+  runSearch();
+});
+fanInput.addEventListener("input", renderProducts);
 
 function handleHostContext(ctx: McpUiHostContext) {
   if (ctx.theme) applyDocumentTheme(ctx.theme);
@@ -1,4 +1,13 @@
 import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  CreatePromotionOutput,
+  PROMOTION_SEGMENTS,
+  type PromotionConflict,
+  type PromotionSegment,
+  type ValidationIssue,
+} from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { parseToolResult, renderError, ToolResultError } from "../tool-result.ts";
 import "../global.css";
 import "./styles.css";
 
@@ -8,6 +17,12 @@ const discountValue = document.getElementById("discount-value")!;
 const resultPanel = document.getElementById("result-panel")!;
 const startInput = document.getElementById("promo-start") as HTMLInputElement;
 const endInput = document.getElementById("promo-end") as HTMLInputElement;
+const segmentSelect = document.getElementById("promo-segment") as HTMLSelectElement;
+const teamSelect = document.getElementById("promo-team") as HTMLSelectElement;
+const inactiveDaysInput = document.getElementById("promo-inactive-days") as HTMLInputElement;
+const checkPanel = document.getElementById("check-panel")!;
+const overlapField = document.getElementById("overlap-field")!;
+const overlapCheckbox = document.getElementById("promo-allow-overlap") as HTMLInputElement;
 
 // Set default dates (these will be overridden by ontoolinput if the host sends values)
 const today = new Date().toISOString().slice(0, 10);
@@ -26,69 +41,108 @@ app.ontoolinput = (params) => {
     discountSlider.value = String(args.discountPercent);
     discountValue.textContent = `${args.discountPercent}%`;
   }
-  if (args.targetSegment) {
-    const seg = document.getElementById("promo-segment") as HTMLSelectElement;
-    // Map common LLM terms to select values
-    const val = String(args.targetSegment).toLowerCase();
-    if (val.includes("superfan") || val.includes("high")) seg.value = "high_engagement";
-    else if (val.includes("low")) seg.value = "low_engagement";
-    else if (val.includes("no_purchase")) seg.value = "no_purchases";
-    else seg.value = val;
+  // targetSegment is a validated enum on the server, so only known segments are applied
+  if (PROMOTION_SEGMENTS.includes(args.targetSegment as PromotionSegment)) {
+    segmentSelect.value = String(args.targetSegment);
   }
+  if (args.targetTeam) teamSelect.value = String(args.targetTeam);
+  if (args.targetInactiveDays != null) inactiveDaysInput.value = String(args.targetInactiveDays);
   if (args.productCategory) {
     const cat = document.getElementById("promo-category") as HTMLSelectElement;
     cat.value = String(args.productCategory);
   }
   if (args.startDate) startInput.value = String(args.startDate);
   if (args.endDate) endInput.value = String(args.endDate);
+  scheduleCheck();
 };
 
 discountSlider.addEventListener("input", () => {
   discountValue.textContent = `${discountSlider.value}%`;
 });
 
+function readForm() {
+  return {
+    name: (document.getElementById("promo-name") as HTMLInputElement).value,
+    description: (document.getElementById("promo-desc") as HTMLTextAreaElement).value,
+    discountPercent: parseInt(discountSlider.value),
+    targetSegment: segmentSelect.value,
+    targetTeam: teamSelect.value || undefined,
+    targetInactiveDays: inactiveDaysInput.value ? Number(inactiveDaysInput.value) : undefined,
+    productCategory: (document.getElementById("promo-category") as HTMLSelectElement).value,
+    startDate: startInput.value,
+    endDate: endInput.value,
+  };
+}
+
+// Validation errors and overlaps also arrive as details of a rejected submission
+const CheckDetails = CreatePromotionOutput.pick({ validationErrors: true, conflicts: true }).partial();
+
+function renderChecks(data: { validationErrors?: ValidationIssue[]; conflicts: PromotionConflict[] }) {
+  const errors = (data.validationErrors ?? []).map((v) => `<li>${escapeHtml(v.message)}</li>`).join("");
+  const conflicts = data.conflicts
+    .map(
+      (c) => `<li><strong>${escapeHtml(c.name)}</strong> — ${c.discountPercent}% off ${escapeHtml(c.productCategory)}, ${escapeHtml(c.startDate)} → ${escapeHtml(c.endDate)} <span class="conflict-status">${escapeHtml(c.status)}</span></li>`
+    )
+    .join("");
+
+  checkPanel.innerHTML = `
+    ${errors ? `<div class="check-card check-error"><div class="check-title">Fix before creating</div><ul>${errors}</ul></div>` : ""}
+    ${conflicts ? `<div class="check-card check-warning"><div class="check-title">Overlaps existing promotions</div><ul>${conflicts}</ul></div>` : ""}`;
+
+  // Overlaps block creation unless the user explicitly opts in
+  overlapField.hidden = data.conflicts.length === 0;
+  if (data.conflicts.length === 0) overlapCheckbox.checked = false;
+}
+
+// Validate and check for overlaps as the form changes, before anything is submitted
+let checkTimer: ReturnType<typeof setTimeout> | undefined;
+function scheduleCheck() {
+  clearTimeout(checkTimer);
+  checkTimer = setTimeout(async () => {
+    try {
+      const result = await app.callServerTool({
+        name: "CreatePromotion",
+        arguments: { ...readForm(), dryRun: true },
+      });
+      renderChecks(parseToolResult(result, CreatePromotionOutput));
+    } catch { /* checks are advisory — submission still reports errors */ }
+  }, 400);
+}
+
+form.addEventListener("input", scheduleCheck);
+form.addEventListener("change", scheduleCheck);
+
 form.addEventListener("submit", async (e) => {
   e.preventDefault();
 
-  const name = (document.getElementById("promo-name") as HTMLInputElement).value;
-  const description = (document.getElementById("promo-desc") as HTMLTextAreaElement).value;
-  const discountPercent = parseInt(discountSlider.value);
-  const targetSegment = (document.getElementById("promo-segment") as HTMLSelectElement).value;
-  const productCategory = (document.getElementById("promo-category") as HTMLSelectElement).value;
-  const startDate = startInput.value;
-  const endDate = endInput.value;
-
   resultPanel.innerHTML = '<p class="loading">Creating promotion...</p>';
 
   try {
     const result = await app.callServerTool({
       name: "CreatePromotion",
-      arguments: { name, description, discountPercent, targetSegment, productCategory, startDate, endDate },
+      arguments: { ...readForm(), allowOverlap: overlapCheckbox.checked },
     });
-
-    const text = result.content!
-      .filter((c): c is { type: "text"; text: string } => c.type === "text")
-      .map((c) => c.text)
-      .join("");
-    const data = JSON.parse(text);
-
-    if (data.success) {
-      resultPanel.innerHTML = `
-        <div class="success-card">
-          <div class="success-icon">✅</div>
-          <div class="success-body">
-            <div class="success-title">Promotion Created!</div>
-            <div class="success-detail"><strong>${data.name}</strong> — ${data.discountPercent}% off ${data.productCategory}</div>
-            <div class="success-detail">Target: ${data.targetSegment} · Reach: ${data.estimatedReach} fans</div>
-            <div class="success-detail">Valid: ${data.startDate} → ${data.endDate}</div>
-            <div class="success-id">ID: ${data.promotionId}</div>
-          </div>
-        </div>`;
-    } else {
-      resultPanel.innerHTML = `<p class="error">Error: ${data.error ?? "Unknown error"}</p>`;
-    }
+    const data = parseToolResult(result, CreatePromotionOutput);
+    const warnings = (data.warnings ?? []).map((w) => `<div class="success-warning">⚠️ ${escapeHtml(w)}</div>`).join("");
+    resultPanel.innerHTML = `
+      <div class="success-card">
+        <div class="success-icon">✅</div>
+        <div class="success-body">
+          <div class="success-title">Promotion Created!</div>
+          <div class="success-detail"><strong>${escapeHtml(data.name)}</strong> — ${data.discountPercent}% off ${escapeHtml(data.productCategory)}</div>
+          <div class="success-detail">Target: ${escapeHtml(data.targetSegment)} · Team: ${escapeHtml(data.targetTeam)}${data.targetInactiveDays ? ` · Quiet ${data.targetInactiveDays}+ days` : ""} · Reach: ${data.estimatedReach} fans</div>
+          <div class="success-detail">Valid: ${escapeHtml(data.startDate)} → ${escapeHtml(data.endDate)}</div>
+          ${warnings}
+          <div class="success-id">ID: ${escapeHtml(data.promotionId)}</div>
+        </div>
+      </div>`;
+    checkPanel.innerHTML = "";
+    overlapField.hidden = true;
+    overlapCheckbox.checked = false;
   } catch (err) {
-    resultPanel.innerHTML = `<p class="error">Failed to create promotion: ${err}</p>`;
+    renderError(resultPanel, err, "Failed to create promotion");
+    const checks = err instanceof ToolResultError ? CheckDetails.safeParse(err.details) : null;
+    if (checks?.success) renderChecks({ ...checks.data, conflicts: checks.data.conflicts ?? [] });
   }
 });
 
@@ -0,0 +1,149 @@
+import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import { Chart, registerables } from "chart.js";
+import { GetPromotionPerformanceOutput, type GetPromotionPerformanceResult } from "../../types.ts";
+import { clearError, parseToolResult, showError } from "../tool-result.ts";
+import "../global.css";
+import "./styles.css";
+
+Chart.register(...registerables);
+
+const chartCanvas = document.getElementById("performance-chart") as HTMLCanvasElement;
+const statGrid = document.getElementById("stat-grid")!;
+const promoLabel = document.getElementById("promo-label")!;
+const footnote = document.getElementById("footnote")!;
+
+let chart: Chart | null = null;
+const app = new App({ name: "Promotion Performance", version: "1.0.0" });
+
+// Render from tool result data sent by the host (avoids re-fetching)
+app.ontoolresult = (result) => {
+  try {
+    const data = parseToolResult(result, GetPromotionPerformanceOutput);
+    clearError();
+    renderSummary(data);
+    renderChart(data);
+  } catch (err) {
+    showError(err);
+  }
+};
+
+function getTextColor(): string {
+  return getComputedStyle(document.documentElement).getPropertyValue("--color-text-secondary").trim() || "#6b7280";
+}
+
+function getGridColor(): string {
+  return getComputedStyle(document.documentElement).getPropertyValue("--color-border-primary").trim() || "#e5e7eb";
+}
+
+function upliftBadge(percent: number | null): string {
+  if (percent === null) return '<span class="uplift-badge uplift-none">n/a</span>';
+  const cls = percent >= 0 ? "uplift-up" : "uplift-down";
+  return `<span class="uplift-badge ${cls}">${percent >= 0 ? "+" : ""}${percent}%</span>`;
+}
+
+function statCard(label: string, value: string, baseline: string, uplift?: number | null): string {
+  return `
+    <div class="stat-card">
+      <div class="stat-label">${label}</div>
+      <div class="stat-value">${value}${uplift !== undefined ? upliftBadge(uplift) : ""}</div>
+      <div class="stat-baseline">Baseline: ${baseline}</div>
+    </div>`;
+}
+
+function renderSummary(data: GetPromotionPerformanceResult) {
+  promoLabel.textContent =
+    `${data.name} · ${data.discountPercent}% off ${data.productCategory} · ` +
+    `${data.targetSegment}${data.targetTeam !== "all" ? ` (${data.targetTeam})` : ""} · ${data.status}`;
+
+  const p = data.promotion;
+  const b = data.baseline;
+  statGrid.innerHTML = [
+    statCard("Revenue", `$${p.revenue.toFixed(2)}`, `$${b.revenue.toFixed(2)}`, data.uplift.revenuePercent),
+    statCard("Orders", String(p.orders), String(b.orders), data.uplift.ordersPercent),
+    statCard("Converted Fans", String(p.convertedFans), String(b.convertedFans), data.uplift.convertedFansPercent),
+    statCard("Conversion Rate", `${p.conversionRate}%`, `${b.conversionRate}%`),
+  ].join("");
+
+  footnote.textContent =
+    `Audience: ${data.audienceSize} fans in the segment on ${p.startDate}. ` +
+    `Promotion ${p.startDate} → ${p.endDate} vs. baseline ${b.startDate} → ${b.endDate} (${data.windowDays} days each).`;
+}
+
+function cumulative(values: number[]): number[] {
+  let total = 0;
+  return values.map((v) => Math.round((total += v) * 100) / 100);
+}
+
+function renderChart(data: GetPromotionPerformanceResult) {
+  const textColor = getTextColor();
+  const gridColor = getGridColor();
+  const days = data.dailyRevenue;
+
+  if (chart) chart.destroy();
+
+  chart = new Chart(chartCanvas, {
+    type: "line",
+    data: {
+      labels: days.map((d) => `Day ${d.day}`),
+      datasets: [
+        {
+          label: "Promotion",
+          data: cumulative(days.map((d) => d.promotion)),
+          borderColor: "#6366f1",
+          backgroundColor: "#6366f133",
+          fill: true,
+          tension: 0.2,
+          pointRadius: 0,
+        },
+        {
+          label: "Baseline",
+          data: cumulative(days.map((d) => d.baseline)),
+          borderColor: "#9ca3af",
+          borderDash: [6, 4],
+          fill: false,
+          tension: 0.2,
+          pointRadius: 0,
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: { intersect: false, mode: "index" },
+      plugins: {
+        legend: { display: true, labels: { color: textColor, font: { size: 11 } } },
+        tooltip: {
+          callbacks: {
+            title: (items) => {
+              const d = days[items[0].dataIndex];
+              return `Day ${d.day} (${d.date})`;
+            },
+            label: (item) => `${item.dataset.label}: $${Number(item.raw).toFixed(2)} cumulative`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          ticks: { color: textColor, font: { size: 10 }, maxTicksLimit: 12 },
+          grid: { display: false },
+        },
+        y: {
+          beginAtZero: true,
+          title: { display: true, text: "Cumulative Revenue ($)", color: textColor, font: { size: 11, weight: "bold" } },
+          ticks: { color: textColor, font: { size: 10 } },
+          grid: { color: gridColor },
+        },
+      },
+    },
+  });
+}
+
+function handleHostContext(ctx: McpUiHostContext) {
+  if (ctx.theme) applyDocumentTheme(ctx.theme);
+  if (ctx.styles?.variables) applyHostStyleVariables(ctx.styles.variables);
+  if (ctx.styles?.css?.fonts) applyHostFonts(ctx.styles.css.fonts);
+}
+
+app.onhostcontextchanged = handleHostContext;
+applyDocumentTheme(window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+app.connect().then(() => { const ctx = app.getHostContext(); if (ctx) handleHostContext(ctx); });
@@ -0,0 +1,111 @@
+import { App, applyDocumentTheme, applyHostStyleVariables, applyHostFonts, type McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import { CancelPromotionOutput, ListPromotionsOutput, type PromotionWithReach } from "../../types.ts";
+import { escapeHtml } from "../html.ts";
+import { watchTables } from "../live-updates.ts";
+import { clearError, parseToolResult, showError } from "../tool-result.ts";
+import "../global.css";
+import "./styles.css";
+
+const statusSelect = document.getElementById("filter-status") as HTMLSelectElement;
+const promoList = document.getElementById("promo-list")!;
+const resultsInfo = document.getElementById("results-info")!;
+
+let stopWatching: (() => void) | null = null;
+const app = new App({ name: "Promotions Manager", version: "1.0.0" });
+
+// Render from tool result data sent by the host (avoids re-fetching)
+app.ontoolresult = (result) => {
+  try {
+    const data = parseToolResult(result, ListPromotionsOutput);
+    clearError();
+    if (data.statusFilter !== "all") statusSelect.value = data.statusFilter;
+    renderPromotions(data.promotions);
+    // Fan activity changes who's in each promotion's segment, so its reach
+    stopWatching ??= watchTables(app, ["Promotions", "Fans", "EngagementEvents", "Purchases"], refresh);
+  } catch (err) {
+    showError(err);
+  }
+};
+
+async function loadPromotions() {
+  promoList.innerHTML = '<p class="empty">Loading promotions...</p>';
+  try {
+    const result = await app.callServerTool({
+      name: "ListPromotions",
+      arguments: statusSelect.value ? { status: statusSelect.value } : {},
+    });
+    const data = parseToolResult(result, ListPromotionsOutput);
+    clearError();
+    renderPromotions(data.promotions);
+  } catch (err) {
+    promoList.innerHTML = "";
+    showError(err, "Failed to load promotions");
+  }
+}
+
+// Like loadPromotions, but without the loading message, and keeping the list if it fails
+async function refresh() {
+  try {
+    const result = await app.callServerTool({
+      name: "ListPromotions",
+      arguments: statusSelect.value ? { status: statusSelect.value } : {},
+    });
+    renderPromotions(parseToolResult(result, ListPromotionsOutput).promotions);
+  } catch {
+    // The next change tries again
+  }
+}
+
+async function cancelPromotion(promotionId: string, button: HTMLButtonElement) {
+  button.disabled = true;
+  try {
+    const result = await app.callServerTool({ name: "CancelPromotion", arguments: { promotionId } });
+    parseToolResult(result, CancelPromotionOutput);
+    await loadPromotions();
+  } catch (err) {
+    showError(err, "Failed to cancel promotion");
+    button.disabled = false;
+  }
+}
+
+function renderPromotions(promotions: PromotionWithReach[]) {
+  resultsInfo.textContent = `${promotions.length} promotion${promotions.length !== 1 ? "s" : ""}`;
+
+  if (promotions.length === 0) {
+    promoList.innerHTML = '<p class="empty">No promotions found</p>';
+    return;
+  }
+
+  promoList.innerHTML = `
+    <table class="promo-table">
+      <thead><tr><th>Promotion</th><th>Status</th><th>Discount</th><th>Target</th><th>Reach</th><th>Dates</th><th></th></tr></thead>
+      <tbody>
+        ${promotions.map((p) => `
+          <tr>
+            <td><strong>${escapeHtml(p.name)}</strong><br><span class="promo-desc">${escapeHtml(p.description ?? "")}</span><br><span class="promo-id">${escapeHtml(p.promotionId)}</span></td>
+            <td><span class="status-badge status-${escapeHtml(p.status)}">${escapeHtml(p.status)}</span></td>
+            <td>${p.discountPercent}% off ${escapeHtml(p.productCategory)}</td>
+            <td>${escapeHtml(p.targetSegment)}${p.targetTeam ? ` · ${escapeHtml(p.targetTeam)}` : ""}${p.targetInactiveDays ? ` · quiet ${p.targetInactiveDays}+ days` : ""}</td>
+            <td>${p.estimatedReach ?? "—"}</td>
+            <td>${escapeHtml(p.startDate)} → ${escapeHtml(p.endDate)}</td>
+            <td>${p.status === "active" || p.status === "scheduled" ? `<button class="cancel-btn" data-id="${escapeHtml(p.promotionId)}">Cancel</button>` : ""}</td>
+          </tr>`).join("")}
+      </tbody>
+    </table>`;
+
+  promoList.querySelectorAll<HTMLButtonElement>(".cancel-btn").forEach((btn) => {
+    btn.addEventListener("click", () => cancelPromotion(btn.dataset.id!, btn));
+  });
+}
+
+statusSelect.addEventListener("change", loadPromotions);
+
+function handleHostContext(ctx: McpUiHostContext) {
+  if (ctx.theme) applyDocumentTheme(ctx.theme);
+  if (ctx.styles?.variables) applyHostStyleVariables(ctx.styles.variables);
+  if (ctx.styles?.css?.fonts) applyHostFonts(ctx.styles.css.fonts);
+}
+
+app.onhostcontextchanged = handleHostContext;
+applyDocumentTheme(window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+app.connect().then(() => { const ctx = app.getHostContext(); if (ctx) handleHostContext(ctx); });
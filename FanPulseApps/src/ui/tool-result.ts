@@ -0,0 +1,91 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ToolErrorBodySchema, type ErrorCode } from "../types.ts";
+
+// Shared tool-result handling for the UIs. Results are read from structuredContent and
+// checked against the tool's output schema from types.ts, so a UI never renders a shape
+// the server doesn't send. Failed calls and bad data both become a ToolResultError, and
+// every UI shows those through renderError.
+
+/** A failed tool call, with the server's error code and any details from its error body */
+export class ToolResultError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ToolResultError";
+  }
+}
+
+function fromErrorResult(result: CallToolResult): ToolResultError {
+  const text = (result.content ?? [])
+    .filter((c): c is { type: "text"; text: string } => c.type === "text")
+    .map((c) => c.text)
+    .join("");
+  try {
+    const parsed = ToolErrorBodySchema.safeParse(JSON.parse(text));
+    if (parsed.success) {
+      const { code, error, ...details } = parsed.data;
+      return new ToolResultError(code, error, details);
+    }
+  } catch { /* not JSON — the failure came from the SDK, not a handler */ }
+  // -32602 (invalid params) is the SDK rejecting the arguments against the input schema
+  return new ToolResultError(text.includes("-32602") ? "validation" : "internal", text || "The tool call failed");
+}
+
+/** Validated data of a tool result. Throws ToolResultError if the call failed or the data doesn't match. */
+export function parseToolResult<T extends z.ZodType>(result: CallToolResult, schema: T): z.output<T> {
+  if (result.isError) throw fromErrorResult(result);
+  const parsed = schema.safeParse(result.structuredContent);
+  if (!parsed.success) {
+    throw new ToolResultError("internal", `Unexpected data from the server:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+const ERROR_TITLES: Record<ErrorCode, string> = {
+  not_found: "Not found",
+  validation: "Invalid request",
+  conflict: "Can't do that right now",
+  internal: "Something went wrong",
+};
+
+/**
+ * Replaces the contents of `target` with a failure: a title for the error code (or
+ * `title`), the code itself, and the message. Anything that isn't a ToolResultError
+ * (e.g. the host rejecting the call) is shown as internal.
+ */
+export function renderError(target: HTMLElement, error: unknown, title?: string) {
+  const code = error instanceof ToolResultError ? error.code : "internal";
+  const box = document.createElement("div");
+  box.className = "error-state";
+  box.setAttribute("role", "alert");
+  const heading = document.createElement("div");
+  heading.className = "error-title";
+  heading.append(
+    Object.assign(document.createElement("strong"), { textContent: title ?? ERROR_TITLES[code] }),
+    Object.assign(document.createElement("code"), { className: "error-code", textContent: code })
+  );
+  box.append(heading, Object.assign(document.createElement("p"), { textContent: error instanceof Error ? error.message : String(error) }));
+  target.replaceChildren(box);
+}
+
+/** Shows a failure in a banner under the UI's header, replacing any previous one */
+export function showError(error: unknown, title?: string) {
+  let banner = document.getElementById("tool-error");
+  if (!banner) {
+    banner = document.createElement("div");
+    banner.id = "tool-error";
+    const main = document.querySelector("main") ?? document.body;
+    const header = main.querySelector("header");
+    if (header) header.after(banner);
+    else main.prepend(banner);
+  }
+  renderError(banner, error, title);
+}
+
+export function clearError() {
+  document.getElementById("tool-error")?.remove();
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { createServer } = await import("../server.js");
+
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await createServer().connect(serverTransport);
+const client = new Client({ name: "test", version: "1.0.0" });
+await client.connect(clientTransport);
+
+after(() => client.close());
+
+db.getDb().exec(`
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity) VALUES
+    ('prod-1', 'Scarf, "Winter" Edition', 'Scarf', 'Summit FC', 25, 10),
+    ('prod-2', '=HYPERLINK("x")', 'Scarf', 'Summit FC', 30, 10),
+    ('prod-3', 'Home Jersey', 'Jersey', 'Thunderbolts', 90, 10);
+`);
+
+async function exportData(args: Record<string, unknown>) {
+  const result = await client.callTool({ name: "ExportData", arguments: args });
+  return { result, output: result.structuredContent as { uri: string; rowCount: number; columns: string[] } };
+}
+
+async function read(uri: string) {
+  const { contents } = await client.readResource({ uri });
+  return (contents[0] as { text: string }).text;
+}
+
+test("exports every matching row as CSV, guarding against spreadsheet formulas", async () => {
+  const { output } = await exportData({ source: "merchandise", category: "Scarf", sortBy: "price_asc" });
+  assert.equal(output.rowCount, 2);
+  assert.match(output.uri, /^fanpulse:\/\/exports\/.+\.csv$/);
+
+  const lines = (await read(output.uri)).split("\r\n");
+  assert.equal(lines[0], output.columns.join(","));
+  assert.ok(lines[1].includes(`"Scarf, ""Winter"" Edition"`));
+  assert.ok(lines[2].includes(`"'=HYPERLINK(""x"")"`));
+  assert.equal(lines.length, 4);
+});
+
+test("re-runs the export with current data when read again", async () => {
+  const { output } = await exportData({ source: "merchandise", team: "Thunderbolts", format: "ndjson" });
+  db.getDb().exec("INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity) VALUES ('prod-4', 'Away Jersey', 'Jersey', 'Thunderbolts', 90, 10)");
+
+  const rows = (await read(output.uri)).trimEnd().split("\n").map((line) => JSON.parse(line) as { productId: string });
+  assert.deepEqual(rows.map((r) => r.productId).sort(), ["prod-3", "prod-4"]);
+});
+
+test("rejects arguments the source doesn't take", async () => {
+  const { result } = await exportData({ source: "segment", segment: "dormant_fans", lookbackDays: 30 });
+  assert.equal(result.isError, true);
+  const [content] = result.content as { type: string; text: string }[];
+  assert.equal(JSON.parse(content.text).code, "validation");
+});
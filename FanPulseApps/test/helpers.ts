@@ -0,0 +1,22 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after } from "node:test";
+
+/**
+ * Points FANPULSE_DB at a fresh database for this test file and returns the database module;
+ * getDb() creates and migrates it on first use. The database is closed and removed after the
+ * file's tests. Call it before importing any other module that opens the database.
+ */
+export async function useTestDatabase() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fanpulse-test-"));
+  process.env.FANPULSE_DB = path.join(dir, "fanpulse.db");
+  const db = await import("../src/data/database.js");
+
+  after(() => {
+    db.getDb().close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return db;
+}
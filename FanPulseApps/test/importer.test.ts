@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { importEngagementEvents, importPurchases } = await import("../src/data/importer.js");
+
+db.getDb().exec(`
+  INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, JoinDate)
+  VALUES ('fan-1', 'Ada', 'Active', 'ada@example.com', 'Thunderbolts', '2025-01-01');
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity)
+  VALUES ('prod-1', 'Home Jersey', 'Jersey', 'Thunderbolts', 10, 50);
+`);
+
+test("rejects impossible dates", () => {
+  const csv = "sourceId,fanId,eventType,eventDate\nsrc-1,fan-1,game_attendance,2025-02-30\nsrc-2,fan-1,game_attendance,2025-02-28T19:30:00Z\n";
+  const report = importEngagementEvents(csv, { format: "csv", dryRun: true });
+  assert.equal(report.imported, 1);
+  assert.deepEqual(report.errors, [{ line: 2, sourceId: "src-1", message: "eventDate must be a YYYY-MM-DD date" }]);
+});
+
+test("takes extra CSV columns as metadata but rejects unknown NDJSON keys", () => {
+  const csv = "sourceId,fanId,eventType,eventDate,seat\nsrc-3,fan-1,game_attendance,2025-03-01,112-14\n";
+  assert.equal(importEngagementEvents(csv, { format: "csv", dryRun: true }).imported, 1);
+
+  const ndjson = [
+    { sourceId: "src-4", fanId: "fan-1", eventType: "game_attendance", eventDate: "2025-03-01", metadata: { seat: "112-14" } },
+    { sourceId: "src-5", fanId: "fan-1", eventType: "game_attendance", eventDate: "2025-03-01", seat: "112-14" },
+  ]
+    .map((row) => JSON.stringify(row))
+    .join("\n");
+  const report = importEngagementEvents(ndjson, { format: "ndjson", dryRun: true });
+  assert.equal(report.imported, 1);
+  assert.equal(report.errors[0]?.sourceId, "src-5");
+  assert.match(report.errors[0]?.message ?? "", /^Unknown field seat;/);
+});
+
+test("finds duplicates in batches larger than SQLite's parameter limit", () => {
+  const header = "sourceId,fanId,productId,purchaseDate,totalPrice";
+  const rows = Array.from({ length: 33_000 }, (_, i) => `bulk-${i},fan-1,prod-1,2025-04-01,10`);
+  importPurchases([header, rows[0], rows[32_999]].join("\n"), { format: "csv" });
+
+  const report = importPurchases([header, ...rows].join("\n"), { format: "csv", dryRun: true, batchSize: 33_000 });
+  assert.equal(report.duplicates, 2);
+  assert.equal(report.imported, 32_998);
+});
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { getAudience, getSegmentedFans } = await import("../src/engine/segments.js");
+
+// A superfan who went quiet in March, a casual fan active in June, and a fan who never engaged
+db.getDb().exec(`
+  INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, JoinDate) VALUES
+    ('fan-lapsed', 'Lee', 'Lapsed', 'lee@example.com', 'Thunderbolts', '2024-01-01'),
+    ('fan-recent', 'Rae', 'Recent', 'rae@example.com', 'Thunderbolts', '2024-01-01'),
+    ('fan-never', 'Nia', 'Never', 'nia@example.com', 'Thunderbolts', '2024-01-01');
+  INSERT INTO EngagementEvents (EventId, FanId, EventType, EventDate) VALUES
+    ('evt-1', 'fan-lapsed', 'game_attendance', '2025-01-10'),
+    ('evt-2', 'fan-lapsed', 'game_attendance', '2025-02-10'),
+    ('evt-3', 'fan-lapsed', 'app_open', '2025-03-01'),
+    ('evt-4', 'fan-lapsed', 'app_open', '2025-03-02'),
+    ('evt-5', 'fan-recent', 'app_open', '2025-06-20');
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity) VALUES
+    ('prod-1', 'Home Jersey', 'Jersey', 'Thunderbolts', 80, 10);
+  INSERT INTO Purchases (PurchaseId, FanId, ProductId, PurchaseDate, Quantity, TotalPrice) VALUES
+    ('pur-1', 'fan-lapsed', 'prod-1', '2025-02-10', 1, 80);
+`);
+
+function fanIds(fans: { fanId: string }[]) {
+  return fans.map((f) => f.fanId).sort();
+}
+
+test("keeps only fans quiet for inactiveDays, in whichever segment they were", () => {
+  const segments = getSegmentedFans(undefined, "2025-07-01", 60);
+  assert.deepEqual(fanIds(segments.superfans), ["fan-lapsed"]);
+  assert.deepEqual(fanIds(segments.casual_fans), []);
+  assert.deepEqual(fanIds(segments.dormant_fans), ["fan-never"]);
+});
+
+test("targets lapsed buyers through the all segment", () => {
+  assert.deepEqual(fanIds(getAudience("all", undefined, "2025-07-01", 60)), ["fan-lapsed", "fan-never"]);
+  assert.deepEqual(fanIds(getAudience("all", undefined, "2025-07-01")), ["fan-lapsed", "fan-never", "fan-recent"]);
+});
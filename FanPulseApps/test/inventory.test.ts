@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { createServer } = await import("../server.js");
+
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await createServer().connect(serverTransport);
+const client = new Client({ name: "test", version: "1.0.0" });
+await client.connect(clientTransport);
+
+after(() => client.close());
+
+db.getDb().exec(`
+  INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, JoinDate) VALUES
+    ('fan-1', 'Ada', 'Buyer', 'ada@example.com', 'Thunderbolts', '2025-01-01');
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Player, Price, StockQuantity, ReorderThreshold) VALUES
+    ('prod-1', 'Home Jersey', 'Jersey', 'Thunderbolts', '', 90, 3, 2);
+`);
+
+async function call(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  return result.structuredContent as { lowStock: boolean; remainingStock: number };
+}
+
+test("flags low stock the same way in purchases and search results", async () => {
+  const purchase = { fanId: "fan-1", productId: "prod-1", purchaseDate: "2025-06-01" };
+
+  const low = await call("RecordPurchase", purchase);
+  assert.equal(low.remainingStock, 2);
+  assert.equal(low.lowStock, true);
+
+  const soldOut = await call("RecordPurchase", { ...purchase, quantity: 2 });
+  assert.equal(soldOut.remainingStock, 0);
+  assert.equal(soldOut.lowStock, false);
+
+  const search = (await client.callTool({ name: "SearchMerchandise", arguments: { team: "Thunderbolts", inStockOnly: false } })).structuredContent as {
+    products: { lowStock: boolean }[];
+  };
+  assert.equal(search.products[0].lowStock, soldOut.lowStock);
+});
+
+test("rejects an inventory adjustment that changes nothing", async () => {
+  const result = await client.callTool({ name: "AdjustInventory", arguments: { productId: "prod-1" } });
+  assert.equal(result.isError, true);
+  const [content] = result.content as { type: string; text: string }[];
+  assert.equal(JSON.parse(content.text).code, "validation");
+});
+
+test("sets a reorder threshold on its own", async () => {
+  const adjusted = await call("AdjustInventory", { productId: "prod-1", reorderThreshold: 5 });
+  assert.equal(db.getProductById("prod-1")?.reorderThreshold, 5);
+  assert.equal(adjusted.lowStock, false);
+});
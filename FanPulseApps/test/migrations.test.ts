@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import Database from "better-sqlite3";
+import { MIGRATIONS, getAppliedVersions, runMigrations, type Migration } from "../src/data/migrations.js";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+
+test("migrates a new database to the latest version", () => {
+  const applied = getAppliedVersions(db.getDb());
+  assert.deepEqual([...applied].sort((a, b) => a - b), MIGRATIONS.map((m) => m.version));
+  assert.deepEqual(runMigrations(db.getDb()), []);
+});
+
+test("applies pending migrations in version order, once each", () => {
+  const sql = new Database(":memory:");
+  const order: number[] = [];
+  const migration = (version: number): Migration => ({ version, name: `m${version}`, up: () => order.push(version) });
+
+  assert.deepEqual(runMigrations(sql, [migration(2), migration(1)]), [1, 2]);
+  assert.deepEqual(runMigrations(sql, [migration(1), migration(2), migration(3)]), [3]);
+  assert.deepEqual(order, [1, 2, 3]);
+  sql.close();
+});
+
+test("records nothing for a migration that fails", () => {
+  const sql = new Database(":memory:");
+  const failing: Migration = {
+    version: 1,
+    name: "broken",
+    up: (conn) => {
+      conn.exec("CREATE TABLE Partial (Id TEXT)");
+      throw new Error("boom");
+    },
+  };
+
+  assert.throws(() => runMigrations(sql, [failing]), /boom/);
+  assert.equal(getAppliedVersions(sql).size, 0);
+  assert.equal(sql.prepare("SELECT name FROM sqlite_master WHERE name = 'Partial'").get(), undefined);
+  sql.close();
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { createServer } = await import("../server.js");
+
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await createServer().connect(serverTransport);
+const client = new Client({ name: "test", version: "1.0.0" });
+await client.connect(clientTransport);
+
+after(() => client.close());
+
+db.getDb().exec(`
+  INSERT INTO Promotions (PromotionId, Name, DiscountPercent, TargetSegment, ProductCategory, StartDate, EndDate, CreatedDate, CancelledDate) VALUES
+    ('promo-never-ran', 'Called off', 20, 'all', 'Jersey', '2025-03-01', '2025-03-31', '2025-02-01', '2025-02-20'),
+    ('promo-ran', 'Spring sale', 10, 'all', 'Jersey', '2025-03-01', '2025-03-31', '2025-02-01', '2025-03-10');
+`);
+
+function performance(promotionId: string) {
+  return client.callTool({ name: "GetPromotionPerformance", arguments: { promotionId } });
+}
+
+test("rejects a promotion cancelled before it started", async () => {
+  const result = await performance("promo-never-ran");
+  assert.equal(result.isError, true);
+  const [content] = result.content as { type: string; text: string }[];
+  assert.equal(JSON.parse(content.text).code, "validation");
+});
+
+test("measures a promotion cancelled part-way up to its cancellation", async () => {
+  const result = await performance("promo-ran");
+  assert.equal(result.isError, undefined);
+  assert.equal((result.structuredContent as { windowDays: number }).windowDays, 10);
+});
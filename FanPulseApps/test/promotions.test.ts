@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { findApplicablePromotion } = await import("../src/engine/promotions.js");
+
+db.getDb().exec(`
+  INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, JoinDate) VALUES
+    ('fan-1', 'Ada', 'Active', 'ada@example.com', 'Thunderbolts', '2025-01-01');
+  INSERT INTO Promotions (PromotionId, Name, DiscountPercent, TargetSegment, ProductCategory, StartDate, EndDate, CreatedDate, CancelledDate) VALUES
+    ('promo-cancelled', 'Cancelled in March', 20, 'all', 'Jersey', '2025-02-01', '2025-04-30', '2025-01-15', '2025-03-10'),
+    ('promo-running', 'Spring sale', 10, 'all', 'Jersey', '2025-02-01', '2025-04-30', '2025-01-15', NULL);
+`);
+
+test("applies a promotion cancelled after the purchase date", () => {
+  assert.equal(findApplicablePromotion("fan-1", "Jersey", "2025-03-01")?.promotionId, "promo-cancelled");
+});
+
+test("skips a promotion cancelled on or before the purchase date", () => {
+  assert.equal(findApplicablePromotion("fan-1", "Jersey", "2025-03-10")?.promotionId, "promo-running");
+  assert.equal(findApplicablePromotion("fan-1", "Jersey", "2025-04-01")?.promotionId, "promo-running");
+});
+
+test("applies nothing outside every promotion's window", () => {
+  assert.equal(findApplicablePromotion("fan-1", "Jersey", "2025-05-01"), null);
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+const { buildProductSearch, editDistance, tokenize } = await import("../src/engine/search.js");
+
+db.getDb().exec(`
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity) VALUES
+    ('prod-hoodie', 'Thunderbolts Hoodie', 'Hoodie', 'Thunderbolts', 60, 10),
+    ('prod-jersey', 'Thunderbolts Home Jersey', 'Jersey', 'Thunderbolts', 90, 10),
+    ('prod-scarf', 'Summit FC Scarf', 'Scarf', 'Summit FC', 25, 10);
+`);
+
+function search(query: string) {
+  const { match, corrections } = buildProductSearch(query);
+  const ids = db.searchMerchandise({ match: match ?? undefined }, { sortBy: "name" }).map((p) => p.productId);
+  return { ids, corrections };
+}
+
+test("counts an adjacent swap as one edit", () => {
+  assert.equal(editDistance("hoodie", "hoodie"), 0);
+  assert.equal(editDistance("hodoie", "hoodie"), 1);
+  assert.equal(editDistance("scarf", "scarves"), 3);
+});
+
+test("splits words the way the index does", () => {
+  assert.deepEqual(tokenize("Café  Jersey-#10"), ["cafe", "jersey", "10"]);
+  assert.equal(buildProductSearch("  -- ").match, null);
+});
+
+test("matches every word as a prefix", () => {
+  assert.deepEqual(search("thunder jers").ids, ["prod-jersey"]);
+  assert.deepEqual(search("thunder jers").corrections, []);
+});
+
+test("swaps a misspelt word for the closest indexed words", () => {
+  const { ids, corrections } = search("thunderbots hoody");
+  assert.deepEqual(ids, ["prod-hoodie"]);
+  assert.deepEqual(corrections.map((c) => c.term), ["thunderbots", "hoody"]);
+  assert.ok(corrections[0].replacements.includes("thunderbolts"));
+});
+
+test("finds nothing for a word with no close match", () => {
+  const { ids, corrections } = search("zzzzzz");
+  assert.deepEqual(ids, []);
+  assert.deepEqual(corrections, [{ term: "zzzzzz", replacements: [] }]);
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+
+const sql = db.getDb();
+sql.exec(`
+  INSERT INTO Fans (FanId, FirstName, LastName, Email, FavoriteTeam, JoinDate) VALUES
+    ('fan-1', 'Ada', 'Active', 'ada@example.com', 'Thunderbolts', '2025-01-01'),
+    ('fan-2', 'Quinn', 'Quiet', 'quinn@example.com', 'Summit FC', '2025-01-01');
+  INSERT INTO EngagementEvents (EventId, FanId, EventType, EventDate) VALUES
+    ('evt-1', 'fan-1', 'game_attendance', '2025-03-01'),
+    ('evt-2', 'fan-1', 'game_attendance', '2025-04-01'),
+    ('evt-3', 'fan-1', 'social_media', '2025-05-01');
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, StockQuantity) VALUES
+    ('prod-1', 'Home Jersey', 'Jersey', 'Thunderbolts', 10, 50);
+  INSERT INTO Purchases (PurchaseId, FanId, ProductId, PurchaseDate, Quantity, TotalPrice) VALUES
+    ('pur-1', 'fan-1', 'prod-1', '2025-03-15', 1, 10),
+    ('pur-2', 'fan-1', 'prod-1', '2025-04-15', 1, 25.5);
+`);
+
+function fan(fanId: string, asOf?: string) {
+  return db.getFanSegmentData(undefined, asOf).find((f) => f.fanId === fanId);
+}
+
+test("totals each fan's events and purchases without multiplying them together", () => {
+  assert.deepEqual(
+    { ...fan("fan-1") },
+    {
+      fanId: "fan-1",
+      name: "Ada Active",
+      email: "ada@example.com",
+      favoriteTeam: "Thunderbolts",
+      engagementCount: 3,
+      gamesAttended: 2,
+      purchaseCount: 2,
+      totalSpent: 35.5,
+      lastEngagement: "2025-05-01",
+    }
+  );
+});
+
+test("counts only what happened before asOf", () => {
+  const asOfApril = fan("fan-1", "2025-04-10");
+  assert.equal(asOfApril?.engagementCount, 2);
+  assert.equal(asOfApril?.gamesAttended, 2);
+  assert.equal(asOfApril?.purchaseCount, 1);
+  assert.equal(asOfApril?.totalSpent, 10);
+  assert.equal(asOfApril?.lastEngagement, "2025-04-01");
+});
+
+test("gives zeros for a fan with no events or purchases", () => {
+  const quiet = fan("fan-2");
+  assert.equal(quiet?.engagementCount, 0);
+  assert.equal(quiet?.gamesAttended, 0);
+  assert.equal(quiet?.purchaseCount, 0);
+  assert.equal(quiet?.totalSpent, 0);
+  assert.equal(quiet?.lastEngagement, null);
+});
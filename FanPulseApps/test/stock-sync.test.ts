@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { useTestDatabase } from "./helpers.js";
+
+const db = await useTestDatabase();
+
+const sql = db.getDb();
+
+// Rows written the way the C# server does, with InStock and no StockQuantity
+sql.exec(`
+  INSERT INTO Merchandise (ProductId, Name, Category, Team, Price, InStock) VALUES
+    ('prod-1', 'Home Jersey', 'Jersey', 'Thunderbolts', 10, 1),
+    ('prod-2', 'Away Jersey', 'Jersey', 'Thunderbolts', 10, 0);
+`);
+
+test("gives rows inserted in stock a quantity on hand", () => {
+  assert.equal(db.getProductById("prod-1")?.stockQuantity, 25);
+  assert.equal(db.getProductById("prod-2")?.stockQuantity, 0);
+  assert.equal(db.decrementStock("prod-1", 2), true);
+  assert.equal(db.getProductById("prod-1")?.stockQuantity, 23);
+});
+
+test("follows InStock when only it is updated", () => {
+  sql.exec("UPDATE Merchandise SET InStock = 0 WHERE ProductId = 'prod-1'");
+  assert.equal(db.getProductById("prod-1")?.stockQuantity, 0);
+  sql.exec("UPDATE Merchandise SET InStock = 1 WHERE ProductId = 'prod-2'");
+  assert.equal(db.getProductById("prod-2")?.stockQuantity, 25);
+});
+
+test("leaves quantities set through the TypeScript server alone", () => {
+  db.setStockLevel("prod-2", 3, 5);
+  assert.equal(db.getProductById("prod-2")?.stockQuantity, 3);
+  assert.equal(db.decrementStock("prod-2", 3), true);
+  assert.equal(db.getProductById("prod-2")?.stockQuantity, 0);
+  assert.equal(db.decrementStock("prod-2", 1), false);
+});
@@ -3,7 +3,7 @@ import { useMcpClients } from '../hooks/useMcpClient'
 import { runChat } from '../hooks/chatService'
 import { ChatPanel } from './ChatPanel'
 import type { ChatMessage } from '../types'
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { CallToolResult, Prompt } from '@modelcontextprotocol/sdk/types.js'
 import { getToolUiResourceUri } from '@modelcontextprotocol/ext-apps/app-bridge'
 
 interface ToolCallMeta {
@@ -26,11 +26,7 @@ export function App() {
 
   const bothConnected = fanpulse.status === 'connected' && fanpulseapps.status === 'connected'
 
-  const handleSend = useCallback(async () => {
-    if (!input.trim() || isProcessing || !bothConnected) return
-
-    const prompt = input.trim()
-    setInput('')
+  const send = useCallback(async (prompt: string) => {
     setIsProcessing(true)
 
     // Add user message to both panels
@@ -123,7 +119,35 @@ export function App() {
 
     setActivePanel('none')
     setIsProcessing(false)
-  }, [input, isProcessing, bothConnected, fanpulse, fanpulseapps])
+  }, [fanpulse, fanpulseapps])
+
+  const handleSend = useCallback(() => {
+    if (!input.trim() || isProcessing || !bothConnected) return
+    setInput('')
+    send(input.trim())
+  }, [input, isProcessing, bothConnected, send])
+
+  // Quick start: fetches one of the Apps server's prompts and sends its text like a typed message
+  const handleQuickStart = useCallback(async (prompt: Prompt) => {
+    if (isProcessing || !bothConnected) return
+    const args: Record<string, string> = {}
+    for (const arg of prompt.arguments ?? []) {
+      if (!arg.required) continue
+      const value = window.prompt(arg.description ?? arg.name)?.trim()
+      if (!value) return
+      args[arg.name] = value
+    }
+    try {
+      const { messages } = await fanpulseapps.client.getPrompt({ name: prompt.name, arguments: args })
+      const text = messages
+        .map((m) => (m.content.type === 'text' ? m.content.text : ''))
+        .join('\n')
+        .trim()
+      if (text) await send(text)
+    } catch (err) {
+      setAppsMessages((prev) => [...prev, { role: 'error', content: `Couldn't start ${prompt.title ?? prompt.name}: ${err}` }])
+    }
+  }, [isProcessing, bothConnected, fanpulseapps, send])
 
   return (
     <div className="app">
@@ -151,6 +175,22 @@ export function App() {
         />
       </div>
 
+      {fanpulseapps.prompts.length > 0 && (
+        <div className="quick-start">
+          <span className="quick-start-label">Quick start</span>
+          {fanpulseapps.prompts.map((prompt) => (
+            <button
+              key={prompt.name}
+              title={prompt.description}
+              onClick={() => handleQuickStart(prompt)}
+              disabled={!bothConnected || isProcessing}
+            >
+              {prompt.title ?? prompt.name}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="input-bar">
         <input
           type="text"
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
-import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { Prompt, Tool } from '@modelcontextprotocol/sdk/types.js'
 import type { McpConnection, ServerName } from '../types'
 import { SERVERS } from '../types'
 
@@ -9,6 +9,7 @@ export function useMcpClient(serverName: ServerName): McpConnection {
   const config = SERVERS[serverName]
   const [status, setStatus] = useState<McpConnection['status']>('connecting')
   const [tools, setTools] = useState<Tool[]>([])
+  const [prompts, setPrompts] = useState<Prompt[]>([])
   const [error, setError] = useState<string>()
   const clientRef = useRef<Client | null>(null)
 
@@ -32,8 +33,15 @@ export function useMcpClient(serverName: ServerName): McpConnection {
         const { tools: serverTools } = await client.listTools()
         if (cancelled) { await client.close(); return }
 
+        // Only servers that declare the prompts capability answer prompts/list
+        const { prompts: serverPrompts } = client.getServerCapabilities()?.prompts
+          ? await client.listPrompts()
+          : { prompts: [] }
+        if (cancelled) { await client.close(); return }
+
         clientRef.current = client
         setTools(serverTools)
+        setPrompts(serverPrompts)
         setStatus('connected')
       } catch (err) {
         if (!cancelled) {
@@ -54,6 +62,7 @@ export function useMcpClient(serverName: ServerName): McpConnection {
   return {
     client: clientRef.current!,
     tools,
+    prompts,
     status,
     error,
   }
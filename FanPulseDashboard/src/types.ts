@@ -1,9 +1,11 @@
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
-import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { Prompt, Tool } from '@modelcontextprotocol/sdk/types.js'
 
 export interface McpConnection {
   client: Client
   tools: Tool[]
+  /** Workflow prompts the server offers, shown as quick-start buttons */
+  prompts: Prompt[]
   status: 'connecting' | 'connected' | 'disconnected'
   error?: string
 }